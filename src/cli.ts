@@ -3,6 +3,7 @@
 import { mkdir, writeFile, copyFile, readdir, stat, watch } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
+import { ZyteSSR, ROUTE_MANIFEST_PATH } from './index';
 
 // Conditional import of esbuild to avoid bundling issues
 let esbuildBuild: any;
@@ -117,7 +118,9 @@ async function createNewProject(projectName?: string) {
         skipLibCheck: true,
         esModuleInterop: true,
         allowSyntheticDefaultImports: true,
-        forceConsistentCasingInFileNames: true
+        forceConsistentCasingInFileNames: true,
+        jsx: "react-jsx",
+        jsxImportSource: "zyte"
       }
     };
 
@@ -136,8 +139,10 @@ export default ssr;
     await writeFile(join(projectDir, 'src', 'index.ts'), indexTs);
 
     // Create src/app/app.ts
-    const appTs = `export function appPage() {
-  return \`
+    const appTs = `import { html } from 'zyte';
+
+export function appPage() {
+  return html\`
   <div class="container">
     <h1>Welcome to Zyte SSR!</h1>
     <p>This is your new SSR app. Try the counter example below:</p>
@@ -239,8 +244,10 @@ export default config;
     // Create counter route files
     const counterDir = join(projectDir, 'src', 'routes', 'counter');
     // counter.ts
-    const counterTs = `export function counterPage() {
-  return \`
+    const counterTs = `import { html } from 'zyte';
+
+export function counterPage() {
+  return html\`
   <div class="container">
     <h1>Counter Example</h1>
     <p>Current count: <span id="count">0</span></p>
@@ -350,12 +357,14 @@ async function createExampleRoute(baseDir: string, routeName: string) {
   await mkdir(exampleDir);
 
   // Create <routeName>.ts
-  const routeTs = `export function ${routeName}Page(context?: any) {
+  const routeTs = `import { html } from 'zyte';
+
+export function ${routeName}Page(context?: any) {
     const query = context?.query || {};
     const name = query.name || 'Guest';
     const theme = query.theme || 'light';
     
-    return \`
+    return html\`
     <div class="container \${theme}-theme">
       <h1>${routeName.charAt(0).toUpperCase() + routeName.slice(1)}</h1>
       <p>Hello, \${name}!</p>
@@ -378,7 +387,7 @@ async function createExampleRoute(baseDir: string, routeName: string) {
     const query = context?.query || {};
     const theme = query.theme || 'light';
     
-    return \`
+    return html\`
     <header class="page-header \${theme}-theme">
       <nav>
         <a href="/">Home</a>
@@ -392,37 +401,17 @@ async function createExampleRoute(baseDir: string, routeName: string) {
   }
 
   export function footer() {
-    return \`
+    return html\`
     <footer class="page-footer">
       <p>&copy; 2024 Zyte SSR Framework</p>
     </footer>
     \`;
   }
 
-  export function sidebar(context?: any) {
-    const query = context?.query || {};
-    const name = query.name || 'Guest';
-    
-    return \`
-    <aside class="sidebar">
-      <h3>User Info</h3>
-      <p>Welcome, \${name}!</p>
-      
-      <h3>Query Parameters</h3>
-      <ul>
-        <li>Name: \${query.name || 'Not set'}</li>
-        <li>Theme: \${query.theme || 'light'}</li>
-        <li>Page: \${query.page || '1'}</li>
-      </ul>
-      
-      <h3>Related Links</h3>
-      <ul>
-        <li><a href="/">Home</a></li>
-        <li><a href="/${routeName}">${routeName.charAt(0).toUpperCase() + routeName.slice(1)}</a></li>
-      </ul>
-    </aside>
-    \`;
-  }
+  export const relatedLinks = [
+    { href: '/', label: 'Home' },
+    { href: '/${routeName}', label: '${routeName.charAt(0).toUpperCase() + routeName.slice(1)}' }
+  ];
 
   export function getTitle(context?: any) {
     const query = context?.query || {};
@@ -455,7 +444,21 @@ async function createExampleRoute(baseDir: string, routeName: string) {
     </div>
   </main>
   
-  {{ sidebar() }}
+  <aside class="sidebar">
+    <h3>User Info</h3>
+    {{#if query.name}}
+    <p>Welcome, {{ query.name }}!</p>
+    {{else}}
+    <p>Welcome, Guest!</p>
+    {{/if}}
+
+    <h3>Related Links</h3>
+    <ul>
+      {{#each relatedLinks as link}}
+      <li><a href="{{ link.href }}">{{ link.label }}</a></li>
+      {{/each}}
+    </ul>
+  </aside>
   
   {{ footer() }}
 </body>
@@ -669,12 +672,14 @@ async function addRoute(routeName?: string) {
     await mkdir(routeDir);
 
     // Create route.ts
-    const routeTs = `export function ${routeName}Page(context?: any) {
+    const routeTs = `import { html } from 'zyte';
+
+export function ${routeName}Page(context?: any) {
     const query = context?.query || {};
     const name = query.name || 'Guest';
     const theme = query.theme || 'light';
     
-    return \`
+    return html\`
     <div class="container \${theme}-theme">
         <h1>${routeName.charAt(0).toUpperCase() + routeName.slice(1)}</h1>
         <p>Hello, \${name}!</p>
@@ -697,7 +702,7 @@ export function header(context?: any) {
     const query = context?.query || {};
     const theme = query.theme || 'light';
     
-    return \`
+    return html\`
     <header class="page-header \${theme}-theme">
         <nav>
             <a href="/">Home</a>
@@ -711,37 +716,17 @@ export function header(context?: any) {
 }
 
 export function footer() {
-    return \`
+    return html\`
     <footer class="page-footer">
         <p>&copy; 2024 Zyte SSR Framework</p>
     </footer>
     \`;
 }
 
-export function sidebar(context?: any) {
-    const query = context?.query || {};
-    const name = query.name || 'Guest';
-    
-    return \`
-    <aside class="sidebar">
-        <h3>User Info</h3>
-        <p>Welcome, \${name}!</p>
-        
-        <h3>Query Parameters</h3>
-        <ul>
-            <li>Name: \${query.name || 'Not set'}</li>
-            <li>Theme: \${query.theme || 'light'}</li>
-            <li>Page: \${query.page || '1'}</li>
-        </ul>
-        
-        <h3>Related Links</h3>
-        <ul>
-            <li><a href="/">Home</a></li>
-            <li><a href="/${routeName}">${routeName.charAt(0).toUpperCase() + routeName.slice(1)}</a></li>
-        </ul>
-    </aside>
-    \`;
-}
+export const relatedLinks = [
+    { href: '/', label: 'Home' },
+    { href: '/${routeName}', label: '${routeName.charAt(0).toUpperCase() + routeName.slice(1)}' }
+];
 
 export function getTitle(context?: any) {
     const query = context?.query || {};
@@ -774,7 +759,21 @@ export function getTitle(context?: any) {
         </div>
     </main>
     
-    {{ sidebar() }}
+    <aside class="sidebar">
+        <h3>User Info</h3>
+        {{#if query.name}}
+        <p>Welcome, {{ query.name }}!</p>
+        {{else}}
+        <p>Welcome, Guest!</p>
+        {{/if}}
+
+        <h3>Related Links</h3>
+        <ul>
+            {{#each relatedLinks as link}}
+            <li><a href="{{ link.href }}">{{ link.label }}</a></li>
+            {{/each}}
+        </ul>
+    </aside>
     
     {{ footer() }}
 </body>
@@ -1066,7 +1065,7 @@ async function findClientFiles(dir: string): Promise<string[]> {
     const stats = await stat(fullPath);
     if (stats.isDirectory()) {
       results = results.concat(await findClientFiles(fullPath));
-    } else if (file.endsWith('.client.ts')) {
+    } else if (/\.client\.(ts|js)$/.test(file)) {
       results.push(fullPath);
     }
   }
@@ -1086,45 +1085,59 @@ async function bundleClientFiles() {
     await mkdir(outDir, { recursive: true });
   }
   for (const file of clientFiles) {
-    const outFile = join(outDir, file.replace(/^.*src[\\\/]/, '').replace(/\.ts$/, '.js'));
-    await esbuildBuild({
-      entryPoints: [file],
-      bundle: true,
-      format: 'iife',
-      platform: 'browser',
-      outfile: outFile,
-      minify: true,
-      sourcemap: false,
-      target: ['es2017'],
-    });
+    const outFile = await bundleClientFile(file, outDir);
     console.log(`Bundled client: ${file} -> ${outFile}`);
   }
 }
 
-async function bundleSingleClientFile(file: string) {
-  if (!esbuildBuild) {
-    console.warn('⚠️  esbuild not available - skipping client bundle generation');
-    return;
-  }
-  
-  const outDir = join(process.cwd(), 'dist', 'client');
-  if (!existsSync(outDir)) {
-    await mkdir(outDir, { recursive: true });
-  }
+// Route and app scripts run as classic scripts. Component client modules are imported
+// by the island loader, so they are ES modules.
+async function bundleClientFile(file: string, outDir: string): Promise<string> {
   const outFile = join(outDir, file.replace(/^.*src[\\\/]/, '').replace(/\.ts$/, '.js'));
+  const island = /[\\\/]src[\\\/]components[\\\/]/.test(file);
   await esbuildBuild({
     entryPoints: [file],
     bundle: true,
-    format: 'iife',
+    format: island ? 'esm' : 'iife',
     platform: 'browser',
     outfile: outFile,
     minify: true,
     sourcemap: false,
     target: ['es2017'],
   });
+  return outFile;
+}
+
+async function bundleSingleClientFile(file: string) {
+  if (!esbuildBuild) {
+    console.warn('⚠️  esbuild not available - skipping client bundle generation');
+    return;
+  }
+  
+  const outDir = join(process.cwd(), 'dist', 'client');
+  if (!existsSync(outDir)) {
+    await mkdir(outDir, { recursive: true });
+  }
+  const outFile = await bundleClientFile(file, outDir);
   console.log(`Re-bundled client: ${file} -> ${outFile}`);
 }
 
+async function writeRouteManifest() {
+  // Always scan here: an existing manifest is what we are replacing
+  const ssr = new ZyteSSR({ baseDir: process.cwd(), manifest: false });
+  const diagnostics = ssr.getRouteDiagnostics();
+  for (const diagnostic of diagnostics) {
+    const prefix = diagnostic.level === 'error' ? '❌' : '⚠️ ';
+    console.log(`${prefix} ${diagnostic.message} (${diagnostic.files.join(', ')})`);
+  }
+  if (diagnostics.some(diagnostic => diagnostic.level === 'error')) {
+    throw new Error('Route discovery reported errors');
+  }
+  const manifestPath = join(process.cwd(), ROUTE_MANIFEST_PATH);
+  await writeFile(manifestPath, JSON.stringify(ssr.toManifest(), null, 2));
+  console.log(`Route manifest: ${ssr.getRoutes().length} routes -> ${manifestPath}`);
+}
+
 async function buildProject() {
   const distDir = join(process.cwd(), 'dist');
   try {
@@ -1133,9 +1146,12 @@ async function buildProject() {
     }
     await copyAndCompileFiles(process.cwd(), distDir);
     await bundleClientFiles();
-    // Create a minimal server entry point for the example project
+    await writeRouteManifest();
+    // Create a minimal server entry point for the example project.
+    // NODE_ENV is set before importing so the server loads the route manifest.
     const serverEntry =
-      "import { startServer } from 'zyte/server';\n" +
+      "process.env.NODE_ENV = process.env.NODE_ENV || 'production';\n" +
+      "const { startServer } = await import('zyte/server');\n" +
       "await startServer();\n";
     await writeFile(join(distDir, 'server.js'), serverEntry);
     const routesDir = join(process.cwd(), 'routes');
@@ -0,0 +1,50 @@
+/**
+ * Cookie parsing and `Set-Cookie` serialization for SSRContext.cookies and context.setCookie().
+ */
+
+export interface CookieOptions {
+  maxAge?: number; // In seconds; 0 deletes the cookie
+  expires?: Date;
+  path?: string; // Default: '/'
+  domain?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+// Parses a Cookie request header. Browsers send the cookie with the most specific path first, so the first occurrence of a name wins.
+export function parseCookies(header: string | null | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const pair of header.split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) continue;
+    const name = pair.slice(0, separator).trim();
+    if (!name || Object.prototype.hasOwnProperty.call(cookies, name)) continue;
+    let value = pair.slice(separator + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1);
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!COOKIE_NAME.test(name)) {
+    throw new Error(`Invalid cookie name "${name}"`);
+  }
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+  if (options.maxAge !== undefined) cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+  if (options.expires) cookie += `; Expires=${options.expires.toUTCString()}`;
+  cookie += `; Path=${options.path ?? '/'}`;
+  if (options.domain) cookie += `; Domain=${options.domain}`;
+  if (options.secure) cookie += '; Secure';
+  if (options.httpOnly) cookie += '; HttpOnly';
+  if (options.sameSite) cookie += `; SameSite=${options.sameSite}`;
+  return cookie;
+}
@@ -0,0 +1,485 @@
+/**
+ * The expression language used inside template tags (`{{ ... }}`).
+ *
+ * Expressions are tokenized and parsed into a small syntax tree which is then
+ * evaluated against a scope. Nothing is ever handed to `eval` or `Function`.
+ * Supported: literals (strings, numbers, booleans, null, undefined, arrays and
+ * objects), identifiers, member access (`a.b`, `a?.b`, `a[b]`), calls with
+ * nested arguments, method calls, `!`, unary `-`, comparisons, `&&`, `||`,
+ * `??`, the ternary operator and filters (`value | upper | truncate(80)`),
+ * which bind loosest of all.
+ */
+
+export type Expression =
+  | { type: 'literal'; value: any }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: Expression; property: Expression }
+  | { type: 'call'; callee: Expression; args: Expression[] }
+  | { type: 'unary'; operator: '!' | '-'; argument: Expression }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression }
+  | { type: 'logical'; operator: '&&' | '||' | '??'; left: Expression; right: Expression }
+  | { type: 'conditional'; test: Expression; consequent: Expression; alternate: Expression }
+  | { type: 'array'; elements: Expression[] }
+  | { type: 'object'; properties: { key: string; value: Expression }[] }
+  | { type: 'filter'; name: string; input: Expression; args: Expression[] };
+
+export interface EvaluationScope {
+  /** Resolves a bare identifier such as `siteName` or `query` */
+  lookup(name: string): any;
+  /** Invokes a function referenced by a bare identifier, e.g. `loadUser(params.id)` */
+  callFunction(name: string, fn: (...args: any[]) => any, args: any[]): any;
+  /** Applies a registered filter, e.g. `truncate` in `{{ text | truncate(80) }}` */
+  applyFilter(name: string, value: any, args: any[]): any;
+}
+
+export class ExpressionSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'punctuator' | 'end';
+  value: any;
+  start: number;
+}
+
+// Longest first so that `===` is not read as `==` followed by `=`
+const PUNCTUATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '?.',
+  '<', '>', '!', '-', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}', '=', '|'
+];
+
+const KEYWORDS: Record<string, any> = { true: true, false: false, null: null, undefined: undefined };
+
+// Properties that would let a template reach the prototype chain or the Function constructor
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[index + 1] ?? ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: Number(match[0]), start: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(index))!;
+      tokens.push({ type: 'identifier', value: match[0], start: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = index;
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\') {
+          const next = source[index + 1];
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next === 'r' ? '\r' : (next ?? '');
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      if (index >= source.length) throw new ExpressionSyntaxError('Unterminated string literal', start);
+      index++;
+      tokens.push({ type: 'string', value, start });
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find(candidate => source.startsWith(candidate, index));
+    // `a ?.5 : 1` is a ternary, not optional chaining
+    if (punctuator && !(punctuator === '?.' && /[0-9]/.test(source[index + 2] ?? ''))) {
+      tokens.push({ type: 'punctuator', value: punctuator, start: index });
+      index += punctuator.length;
+      continue;
+    }
+    if (punctuator === '?.') {
+      tokens.push({ type: 'punctuator', value: '?', start: index });
+      index++;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character "${char}"`, index);
+  }
+
+  tokens.push({ type: 'end', value: null, start: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Expression {
+    const expression = this.parsePipe();
+    const token = this.peek();
+    if (token.type !== 'end') this.unexpected(token);
+    return expression;
+  }
+
+  // `key=expr` pairs as used by partial tags; values end where the next key starts
+  parseNamedArguments(): { key: string; value: Expression }[] {
+    const args: { key: string; value: Expression }[] = [];
+    while (this.peek().type !== 'end') {
+      const token = this.next();
+      if (token.type !== 'identifier') this.unexpected(token);
+      this.expect('=');
+      args.push({ key: token.value, value: this.parsePipe() });
+    }
+    return args;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private match(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string) {
+    if (!this.match(value)) {
+      const token = this.peek();
+      throw new ExpressionSyntaxError(`Expected "${value}"`, token.start);
+    }
+  }
+
+  private unexpected(token: Token): never {
+    const description = token.type === 'end' ? 'end of expression' : `"${token.value}"`;
+    throw new ExpressionSyntaxError(`Unexpected ${description}`, token.start);
+  }
+
+  private parsePipe(): Expression {
+    let expression = this.parseConditional();
+    while (this.match('|')) {
+      const token = this.next();
+      if (token.type !== 'identifier') this.unexpected(token);
+      const args = this.match('(') ? this.parseList(')') : [];
+      expression = { type: 'filter', name: token.value, input: expression, args };
+    }
+    return expression;
+  }
+
+  private parseConditional(): Expression {
+    const test = this.parseLogicalOr();
+    if (!this.match('?')) return test;
+    const consequent = this.parseConditional();
+    this.expect(':');
+    const alternate = this.parseConditional();
+    return { type: 'conditional', test, consequent, alternate };
+  }
+
+  // `||` and `??` share a precedence level here; use parentheses to mix them
+  private parseLogicalOr(): Expression {
+    let left = this.parseLogicalAnd();
+    for (;;) {
+      const operator = this.match('||') ? '||' : this.match('??') ? '??' : null;
+      if (!operator) return left;
+      left = { type: 'logical', operator, left, right: this.parseLogicalAnd() };
+    }
+  }
+
+  private parseLogicalAnd(): Expression {
+    let left = this.parseEquality();
+    while (this.match('&&')) {
+      left = { type: 'logical', operator: '&&', left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): Expression {
+    return this.parseBinary(['===', '!==', '==', '!='], () => this.parseRelational());
+  }
+
+  private parseRelational(): Expression {
+    return this.parseBinary(['<=', '>=', '<', '>'], () => this.parseUnary());
+  }
+
+  private parseBinary(operators: string[], parseOperand: () => Expression): Expression {
+    let left = parseOperand();
+    for (;;) {
+      const operator = operators.find(candidate => this.match(candidate));
+      if (!operator) return left;
+      left = { type: 'binary', operator, left, right: parseOperand() };
+    }
+  }
+
+  private parseUnary(): Expression {
+    if (this.match('!')) return { type: 'unary', operator: '!', argument: this.parseUnary() };
+    if (this.match('-')) return { type: 'unary', operator: '-', argument: this.parseUnary() };
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+    for (;;) {
+      if (this.match('.') || this.match('?.')) {
+        const token = this.next();
+        if (token.type !== 'identifier') this.unexpected(token);
+        expression = { type: 'member', object: expression, property: { type: 'literal', value: token.value } };
+      } else if (this.match('[')) {
+        const property = this.parseConditional();
+        this.expect(']');
+        expression = { type: 'member', object: expression, property };
+      } else if (this.match('(')) {
+        expression = { type: 'call', callee: expression, args: this.parseList(')') };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseList(close: string): Expression[] {
+    const items: Expression[] = [];
+    while (!this.match(close)) {
+      items.push(this.parseConditional());
+      if (!this.match(',')) {
+        this.expect(close);
+        break;
+      }
+    }
+    return items;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'identifier') {
+      if (Object.hasOwn(KEYWORDS, token.value)) return { type: 'literal', value: KEYWORDS[token.value] };
+      return { type: 'identifier', name: token.value };
+    }
+    if (token.type === 'punctuator') {
+      if (token.value === '(') {
+        const expression = this.parsePipe();
+        this.expect(')');
+        return expression;
+      }
+      if (token.value === '[') {
+        return { type: 'array', elements: this.parseList(']') };
+      }
+      if (token.value === '{') {
+        return this.parseObject();
+      }
+    }
+    return this.unexpected(token);
+  }
+
+  private parseObject(): Expression {
+    const properties: { key: string; value: Expression }[] = [];
+    while (!this.match('}')) {
+      const token = this.next();
+      if (token.type !== 'identifier' && token.type !== 'string' && token.type !== 'number') this.unexpected(token);
+      const key = String(token.value);
+      if (this.match(':')) {
+        properties.push({ key, value: this.parseConditional() });
+      } else if (token.type === 'identifier') {
+        // Shorthand `{ user }`
+        properties.push({ key, value: { type: 'identifier', name: key } });
+      } else {
+        throw new ExpressionSyntaxError('Expected ":"', this.peek().start);
+      }
+      if (!this.match(',')) {
+        this.expect('}');
+        break;
+      }
+    }
+    return { type: 'object', properties };
+  }
+}
+
+export function parseExpression(source: string): Expression {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Parses the props of a partial tag, e.g. `title="Hi" count=items.length`
+ * in `{{> card title="Hi" count=items.length }}`.
+ */
+export function parseNamedArguments(source: string): { key: string; value: Expression }[] {
+  return new Parser(tokenize(source)).parseNamedArguments();
+}
+
+/**
+ * Finds the `}}` closing a tag whose expression starts at `start`, skipping
+ * braces that belong to object literals and anything inside string literals.
+ * Returns -1 when the tag is never closed.
+ */
+export function findTagEnd(source: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let index = start; index < source.length; index++) {
+    const char = source[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth === 0 && source[index + 1] === '}') return index;
+      depth = Math.max(0, depth - 1);
+    }
+  }
+  return -1;
+}
+
+// Bare names are checked too: `constructor` would otherwise resolve through a scope object's prototype
+function lookupIdentifier(name: string, scope: EvaluationScope): any {
+  if (BLOCKED_PROPERTIES.has(name)) {
+    throw new Error(`Access to "${name}" is not allowed in templates`);
+  }
+  return scope.lookup(name);
+}
+
+function readProperty(object: any, property: any): any {
+  if (BLOCKED_PROPERTIES.has(String(property))) {
+    throw new Error(`Access to "${property}" is not allowed in templates`);
+  }
+  // Missing intermediate values read as undefined, as `a?.b?.c` would
+  return object == null ? undefined : object[property];
+}
+
+function describe(expression: Expression): string {
+  if (expression.type === 'identifier') return expression.name;
+  if (expression.type === 'member' && expression.property.type === 'literal') {
+    return `${describe(expression.object)}.${expression.property.value}`;
+  }
+  return 'expression';
+}
+
+/** The names an expression looks up, e.g. `user` and `format` in `format(user.name)` */
+export function identifiersIn(expression: Expression): string[] {
+  switch (expression.type) {
+    case 'literal': return [];
+    case 'identifier': return [expression.name];
+    case 'member': return [...identifiersIn(expression.object), ...identifiersIn(expression.property)];
+    case 'call': return [...identifiersIn(expression.callee), ...expression.args.flatMap(identifiersIn)];
+    case 'unary': return identifiersIn(expression.argument);
+    case 'binary':
+    case 'logical': return [...identifiersIn(expression.left), ...identifiersIn(expression.right)];
+    case 'conditional': return [expression.test, expression.consequent, expression.alternate].flatMap(identifiersIn);
+    case 'array': return expression.elements.flatMap(identifiersIn);
+    case 'object': return expression.properties.flatMap(property => identifiersIn(property.value));
+    case 'filter': return [...identifiersIn(expression.input), ...expression.args.flatMap(identifiersIn)];
+  }
+}
+
+export async function evaluate(expression: Expression, scope: EvaluationScope): Promise<any> {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+
+    case 'identifier':
+      return lookupIdentifier(expression.name, scope);
+
+    case 'member':
+      return readProperty(await evaluate(expression.object, scope), await evaluate(expression.property, scope));
+
+    case 'call': {
+      const { callee } = expression;
+      const args: any[] = [];
+      for (const arg of expression.args) args.push(await evaluate(arg, scope));
+
+      if (callee.type === 'identifier') {
+        const fn = lookupIdentifier(callee.name, scope);
+        if (typeof fn !== 'function') throw new Error(`Function ${callee.name} not found in component`);
+        return await scope.callFunction(callee.name, fn, args);
+      }
+      if (callee.type === 'member') {
+        // Method call: keep the receiver as `this`
+        const receiver = await evaluate(callee.object, scope);
+        const method = readProperty(receiver, await evaluate(callee.property, scope));
+        if (typeof method !== 'function') throw new Error(`${describe(callee)} is not a function`);
+        return await method.apply(receiver, args);
+      }
+      const fn = await evaluate(callee, scope);
+      if (typeof fn !== 'function') throw new Error(`${describe(callee)} is not a function`);
+      return await fn(...args);
+    }
+
+    case 'unary': {
+      const value = await evaluate(expression.argument, scope);
+      return expression.operator === '!' ? !value : -value;
+    }
+
+    case 'binary': {
+      const left = await evaluate(expression.left, scope);
+      const right = await evaluate(expression.right, scope);
+      switch (expression.operator) {
+        case '===': return left === right;
+        case '!==': return left !== right;
+        case '==': return left == right;
+        case '!=': return left != right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+      }
+      throw new Error(`Unknown operator ${expression.operator}`);
+    }
+
+    case 'logical': {
+      const left = await evaluate(expression.left, scope);
+      if (expression.operator === '&&') return left ? evaluate(expression.right, scope) : left;
+      if (expression.operator === '||') return left ? left : evaluate(expression.right, scope);
+      return left ?? evaluate(expression.right, scope);
+    }
+
+    case 'conditional':
+      return (await evaluate(expression.test, scope))
+        ? evaluate(expression.consequent, scope)
+        : evaluate(expression.alternate, scope);
+
+    case 'array': {
+      const values: any[] = [];
+      for (const element of expression.elements) values.push(await evaluate(element, scope));
+      return values;
+    }
+
+    case 'object': {
+      const object: Record<string, any> = {};
+      for (const { key, value } of expression.properties) {
+        if (BLOCKED_PROPERTIES.has(key)) throw new Error(`Property "${key}" is not allowed in templates`);
+        object[key] = await evaluate(value, scope);
+      }
+      return object;
+    }
+
+    case 'filter': {
+      const value = await evaluate(expression.input, scope);
+      const args: any[] = [];
+      for (const arg of expression.args) args.push(await evaluate(arg, scope));
+      return await scope.applyFilter(expression.name, value, args);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { escapeHtml, SafeHtml } from './html';
+
+/**
+ * A template filter, applied with pipe syntax: `{{ value | name(arg1, arg2) }}`.
+ * It receives the piped value first, then the arguments.
+ */
+export type TemplateFilter = (value: any, ...args: any[]) => any;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Formats in UTC so output does not depend on the server's time zone
+function formatDate(value: any, format = 'YYYY-MM-DD'): string {
+  if (value == null || value === '') return '';
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return String(value);
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds())
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => tokens[token]);
+}
+
+export const builtinFilters: Record<string, TemplateFilter> = {
+  // Escapes once and marks the result as trusted, so it is not escaped again
+  escape: value => new SafeHtml(escapeHtml(value)),
+  // `<` is escaped so the output can be placed inside a <script> element with {{{ }}}
+  json: (value, indent?: number) => (JSON.stringify(value, null, indent) ?? 'null').replace(/</g, '\\u003c'),
+  currency: (value, currency = 'USD', locale = 'en-US') =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency }).format(Number(value)),
+  date: formatDate,
+  // {{ count | pluralize('item') }} -> "1 item", "3 items"
+  pluralize: (count, singular: string, plural = `${singular}s`) =>
+    `${count} ${Number(count) === 1 ? singular : plural}`,
+  default: (value, fallback) => (value == null || value === '' ? fallback : value),
+  upper: value => String(value ?? '').toUpperCase(),
+  lower: value => String(value ?? '').toLowerCase(),
+  truncate: (value, length = 80, suffix = '…') => {
+    const text = String(value ?? '');
+    return text.length > length ? text.slice(0, length).trimEnd() + suffix : text;
+  }
+};
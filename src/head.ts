@@ -0,0 +1,136 @@
+import { escapeHtml } from './html';
+
+/**
+ * Collects the `<head>` entries of one page: the title, meta tags, links and JSON-LD.
+ * Component functions reach it through `context.head`; the framework merges the
+ * entries into the rendered document's `<head>`.
+ *
+ * Entries are deduped by what they describe (a meta name, a stylesheet URL, ...), and
+ * the last call wins. Tags the template already contains act as defaults: the title,
+ * a meta tag with the same name or property and the canonical link are replaced.
+ */
+export class HeadManager {
+  private titleText: string | null = null;
+  // Keyed so repeated calls replace the earlier entry in place
+  private entries = new Map<string, string>();
+  // Entries merged into the document by the last apply(), for pages sent in parts
+  private written = new Set<string>();
+
+  title(text: string): void {
+    this.titleText = String(text);
+  }
+
+  /** `head.meta({ name: 'description', content: '…' })`, also for `property`, `http-equiv` and `charset` */
+  meta(attributes: Record<string, string>): void {
+    const key = ['name', 'property', 'http-equiv', 'charset']
+      .filter(name => attributes[name] !== undefined)
+      .map(name => name === 'charset' ? 'charset' : `${name}=${attributes[name]}`)[0];
+    this.entries.set(`meta:${key ?? JSON.stringify(attributes)}`, `<meta${renderAttributes(attributes)}>`);
+  }
+
+  /** Open Graph tags: `head.og('image', url)` adds `<meta property="og:image" …>` */
+  og(property: string, content: string): void {
+    this.meta({ property: `og:${property}`, content });
+  }
+
+  canonical(href: string): void {
+    this.entries.set('canonical', `<link rel="canonical" href="${escapeHtml(href)}">`);
+  }
+
+  /** `head.preload('/fonts/inter.woff2', 'font', { type: 'font/woff2', crossorigin: '' })` */
+  preload(href: string, as: string, attributes: Record<string, string> = {}): void {
+    this.link({ rel: 'preload', href, as, ...attributes });
+  }
+
+  stylesheet(href: string): void {
+    this.link({ rel: 'stylesheet', href });
+  }
+
+  link(attributes: Record<string, string>): void {
+    this.entries.set(`link:${attributes.rel} ${attributes.href}`, `<link${renderAttributes(attributes)}>`);
+  }
+
+  /**
+   * `head.script({ src: '/analytics.js', defer: '' })`, or inline code with
+   * `head.script({ type: 'module' }, code)`. Inline code is output as-is.
+   */
+  script(attributes: Record<string, string>, content: string = ''): void {
+    this.entries.set(`script:${attributes.src ?? content}`, `<script${renderAttributes(attributes)}>${content}</script>`);
+  }
+
+  /** Structured data, output as `<script type="application/ld+json">` */
+  jsonLd(data: unknown): void {
+    // `<` is escaped so the data cannot close the script element
+    const json = JSON.stringify(data).replace(/</g, '\\u003c');
+    this.entries.set(`json-ld:${json}`, `<script type="application/ld+json">${json}</script>`);
+  }
+
+  /**
+   * Merges the entries into the document's `<head>`, each on its own line before
+   * `</head>`. HTML without a `</head>` is returned unchanged.
+   */
+  apply(html: string): string {
+    const headEnd = html.indexOf('</head>');
+    if (headEnd === -1) return html;
+    let head = html.slice(0, headEnd);
+    let added = '';
+
+    if (this.titleText !== null) {
+      const title = `<title>${escapeHtml(this.titleText)}</title>`;
+      if (/<title\b[^>]*>[\s\S]*?<\/title>/i.test(head)) {
+        head = head.replace(/<title\b[^>]*>[\s\S]*?<\/title>/i, () => title);
+      } else {
+        added += `${title}\n`;
+      }
+    }
+
+    this.written = new Set(this.entries.keys());
+    for (const [key, tag] of this.entries) {
+      const existing = findExistingTag(head, key);
+      if (existing === true) continue;
+      if (existing) head = head.replace(existing, '');
+      added += `${tag}\n`;
+    }
+    return head + added + html.slice(headEnd);
+  }
+
+  /**
+   * Stylesheets and scripts added since the head was written, e.g. by partials rendered
+   * further down a streamed page. Browsers also apply these in the body; other entries are dropped.
+   */
+  takeLateEntries(): string {
+    let tags = '';
+    for (const [key, tag] of this.entries) {
+      if (!/^(link:stylesheet |script:)/.test(key) || this.written.has(key)) continue;
+      this.written.add(key);
+      tags += `${tag}\n`;
+    }
+    return tags;
+  }
+}
+
+function renderAttributes(attributes: Record<string, string>): string {
+  return Object.entries(attributes)
+    .map(([name, value]) => value === '' ? ` ${name}` : ` ${name}="${escapeHtml(value)}"`)
+    .join('');
+}
+
+// Returns a template tag the entry replaces, true when the entry is already present
+// (a stylesheet the template links itself), or null
+function findExistingTag(head: string, key: string): string | true | null {
+  if (key.startsWith('link:stylesheet ')) {
+    return head.includes(`href="${key.slice('link:stylesheet '.length)}"`) ? true : null;
+  }
+  if (key === 'canonical') {
+    return head.match(/<link\b[^>]*\brel="canonical"[^>]*>/i)?.[0] ?? null;
+  }
+  const meta = key.match(/^meta:(name|property|http-equiv)=(.*)$/s);
+  if (meta) {
+    const value = escapeHtml(meta[2]).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return head.match(new RegExp(`<meta\\b[^>]*\\b${meta[1]}="${value}"[^>]*>`, 'i'))?.[0] ?? null;
+  }
+  if (key === 'meta:charset') {
+    return head.match(/<meta\b[^>]*\bcharset=[^>]*>/i)?.[0] ?? null;
+  }
+  return null;
+}
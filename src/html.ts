@@ -0,0 +1,73 @@
+/**
+ * Built-in anti-XSS helpers: HTML escaping, the trusted SafeHtml marker and the html tag.
+ */
+
+export function escapeHtml(str: any): string {
+  if (str == null) return '';
+  if (typeof str !== 'string') str = String(str);
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Shared through the global symbol registry: the server bundle and the `zyte` package
+// each carry their own copy of this class, so instanceof cannot be relied on
+const SAFE_HTML = Symbol.for('zyte.SafeHtml');
+
+/**
+ * A string of trusted HTML. Template tags output it as-is instead of escaping it.
+ * Create one with the html tag or raw().
+ */
+export class SafeHtml {
+  readonly [SAFE_HTML] = true;
+
+  constructor(private readonly value: string) {}
+
+  static isSafeHtml(value: any): value is SafeHtml {
+    return value != null && value[SAFE_HTML] === true;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+/**
+ * Marks a string as trusted HTML so {{ expr }} outputs it without escaping.
+ * Only use it for markup you control, never for user input.
+ */
+export function raw(value: any): SafeHtml {
+  return SafeHtml.isSafeHtml(value) ? value : new SafeHtml(value == null ? '' : String(value));
+}
+
+// Escapes a value for HTML output unless it is already trusted; arrays are joined
+export function toHtml(value: any): string {
+  if (SafeHtml.isSafeHtml(value)) return value.toString();
+  if (Array.isArray(value)) return value.map(toHtml).join('');
+  return escapeHtml(value);
+}
+
+/**
+ * html tagged template literal for safe HTML interpolation.
+ * Usage:
+ *   import { html } from 'zyte';
+ *   export function aboutPage(context) {
+ *     return html`<div>User: ${context.query.user}</div>`;
+ *   }
+ * All interpolated values are automatically escaped to prevent XSS, except nested
+ * html results and raw() values. Arrays are joined, so lists can be built with map().
+ * The result is SafeHtml, which templates output without escaping it again.
+ */
+export function html(strings: TemplateStringsArray, ...values: any[]): SafeHtml {
+  let result = '';
+  for (let i = 0; i < strings.length; i++) {
+    result += strings[i];
+    if (i < values.length) {
+      result += toHtml(values[i]);
+    }
+  }
+  return new SafeHtml(result);
+}
@@ -1,34 +1,228 @@
 import { readFileSync, existsSync } from 'fs';
 import { join, extname } from 'path';
 import { readdirSync, statSync } from 'fs';
-import { relative } from 'path';
+import { relative, basename, dirname } from 'path';
+import { evaluate, findTagEnd, identifiersIn, parseExpression, EvaluationScope, Expression } from './expression';
+import { parseTemplate, getLineAndColumn, TemplateNode, TemplateError, TemplateSyntaxError } from './template';
+import { SafeHtml, toHtml } from './html';
+import { builtinFilters, TemplateFilter } from './filters';
+import { HeadManager } from './head';
+import { parseCookies, serializeCookie, CookieOptions } from './cookies';
+import { isHydrationStrategy, islandModuleUrl, wrapIsland, HYDRATION_STRATEGIES, ISLAND_LOADER } from './islands';
+import { parseMarkdownPage, MarkdownPage } from './markdown';
 
 export interface RouteConfig {
   path: string;
   component: string;
-  layout?: string;
+  template?: string; // HTML template next to the component, or the page of a Markdown route; API routes have none
+  layout?: string; // Innermost layout template wrapping this route
+  layouts?: string[]; // Full layout chain, outermost first
+  middleware?: string[]; // Directory middleware chain, outermost first
+  styles?: string[]; // Stylesheet URLs for the layouts and the route, outermost first
+  client?: string; // Client bundle URL when the route has a `.client.ts` file
+  params?: string[];
 }
 
+/**
+ * Routes discovered at build time (`zyte build` writes it to `dist/routes-manifest.json`)
+ * so production servers can start without scanning the routes directory.
+ */
+export interface RouteManifest {
+  version: number;
+  routes: RouteConfig[];
+}
+
+export interface RouteDiagnostic {
+  level: 'warning' | 'error';
+  code: 'missing-component' | 'ambiguous-component' | 'duplicate-route' | 'missing-template';
+  path: string; // Route path of the directory concerned
+  files: string[]; // Files involved, relative to baseDir
+  message: string;
+}
+
+export const ROUTE_MANIFEST_VERSION = 1;
+export const ROUTE_MANIFEST_PATH = join('dist', 'routes-manifest.json');
+
+export interface RouteMatch {
+  route: RouteConfig;
+  params: Record<string, string | string[]>;
+}
+
+/**
+ * Everything a page knows about the request it renders. The server builds it with
+ * createContext(); the fields marked optional are absent in hand-made contexts.
+ */
 export interface SSRContext {
-  params: Record<string, string>;
-  query: Record<string, string>;
+  params: Record<string, string | string[]>;
+  query: Record<string, string>; // Last value of each query parameter
+  queryAll?: Record<string, string[]>; // Every value of each query parameter, e.g. ?tag=a&tag=b
   headers: Record<string, string>;
+  cookies?: Record<string, string>; // Parsed from the Cookie header
+  method?: string;
+  url?: URL; // The full request URL (after rewrites)
+  status?: number; // Response status decided while rendering (e.g. 404 for unknown routes)
+  error?: SSRErrorInfo; // Set when rendering the project's error page
+  request?: Request; // The incoming request, e.g. for reading form data in actions
+  actionResult?: any; // Value returned by the page's action for non-GET requests
+  data?: any; // Value returned by the route's `load(context)`, shared by its templates and functions
+  locals?: Record<string, any>; // Per-request values set by middleware
+  head?: HeadManager; // Title, meta tags and links for the page's <head>, created when rendering starts
+  responseHeaders?: Headers; // Headers (including Set-Cookie) added to the response, see setHeader/setCookie
+  setStatus?(status: number): void;
+  setHeader?(name: string, value: string): void;
+  setCookie?(name: string, value: string, options?: CookieOptions): void;
 }
 
+/**
+ * Runs before a request is rendered. Return a `Response` to short-circuit,
+ * or nothing to continue with the next middleware and the page.
+ */
+export type Middleware = (request: Request, context: SSRContext) => Response | void | Promise<Response | void>;
+
+export interface SSRErrorInfo {
+  status: number;
+  message: string;
+  stack?: string; // Only exposed outside production
+}
+
+export type RouteHandler = (request: Request, context: SSRContext) => Response | Promise<Response>;
+
+// SSRContext fields that templates can reference directly, e.g. {{ query.q }}
+const TEMPLATE_CONTEXT_KEYS = ['query', 'queryAll', 'params', 'headers', 'cookies', 'error', 'actionResult', 'locals', 'data'] as const;
+
+// Module types a route, layout, partial or app component can be written in
+const COMPONENT_EXTENSIONS = ['.ts', '.tsx', '.js'];
+
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
 export interface ZyteSSROptions {
   baseDir?: string;
   routesDir?: string;
+  // Manifest object or path (relative to baseDir). Defaults to dist/routes-manifest.json
+  // in production; false always scans the routes directory.
+  manifest?: RouteManifest | string | false;
+  // HTML-escape {{ expr }} output (default true); {{{ expr }}} is never escaped
+  autoEscape?: boolean;
+  // Defaults to NODE_ENV === 'production'. Production loads the route manifest and
+  // compiles templates and imports modules once, without checking files for changes.
+  production?: boolean;
+  // Extra template filters for {{ value | name }}; they override built-ins and src/filters.ts
+  filters?: Record<string, TemplateFilter>;
+  // Fail the render with a TemplateError when a tag cannot be evaluated (default false)
+  strict?: boolean;
+  // Output for a failing tag when not strict (default '')
+  errorFallback?: string;
+  // Maximum template expressions evaluated at once per page (default unlimited)
+  concurrency?: number;
+}
+
+// A compiled template: renders with a component's exports, the request context and block variables
+type RenderFunction = (component: any, context: SSRContext, variables: Record<string, any>) => Promise<string>;
+
+// A template file or body. `parts` starts every top-level part at once and returns them in
+// document order, so a stream can send each one as soon as those before it are done.
+interface CompiledTemplate extends RenderFunction {
+  parts(component: any, context: SSRContext, variables: Record<string, any>): Promise<string>[];
+}
+
+interface TemplateSource {
+  text: string;
+  file: string;
+}
+
+// Non-strict renders keep collecting errors; past this many, they are only logged
+const MAX_TEMPLATE_ERRORS = 100;
+
+type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+// Runs at most `max` tasks at a time; queued tasks start in the order they were submitted
+function createLimiter(max: number): Limiter {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  return async task => {
+    if (active < max) active++;
+    else await new Promise<void>(resolve => queue.push(resolve)); // The slot is handed over by a finishing task
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+interface CachedFile<T> {
+  version: string;
+  value: T;
 }
 
 export class ZyteSSR {
   private routes: Map<string, RouteConfig> = new Map();
+  private dynamicRoutes: RouteConfig[] = [];
+  private diagnostics: RouteDiagnostic[] = [];
+  private production: boolean;
+  // Compiled templates, Markdown pages and imported modules by absolute path, with the file version they came from
+  private templates = new Map<string, CachedFile<CompiledTemplate>>();
+  private markdownPages = new Map<string, CachedFile<MarkdownPage>>();
+  private modules = new Map<string, CachedFile<any>>();
+  private existingFiles = new Map<string, boolean>();
+  private filterOptions: Record<string, TemplateFilter>;
+  private strict: boolean;
+  private errorFallback: string;
+  private templateErrors: TemplateError[] = [];
+  private concurrency: number | undefined;
+  // Concurrency limiters for pages being rendered, keyed by their request context
+  private limiters = new WeakMap<SSRContext, Limiter>();
+  // Merged filter registry, rebuilt when src/filters.ts is reloaded
+  private filters: { module: any; registry: Record<string, TemplateFilter> } | null = null;
   private baseDir: string;
+  private autoEscape: boolean;
   private routesDir: string;
 
   constructor(options: ZyteSSROptions = {}) {
     this.baseDir = options.baseDir || process.cwd();
     this.routesDir = options.routesDir || 'src/routes';
-    this.discoverRoutes();
+    this.autoEscape = options.autoEscape ?? true;
+    this.production = options.production ?? process.env.NODE_ENV === 'production';
+    this.filterOptions = options.filters ?? {};
+    this.strict = options.strict ?? false;
+    this.errorFallback = options.errorFallback ?? '';
+    this.concurrency = options.concurrency;
+
+    const manifest = this.resolveManifest(options.manifest);
+    if (manifest) {
+      for (const route of manifest.routes) {
+        this.routes.set(route.path, route);
+      }
+      this.indexDynamicRoutes();
+    } else {
+      this.discoverRoutes();
+    }
+  }
+
+  private resolveManifest(option: ZyteSSROptions['manifest']): RouteManifest | null {
+    if (option === false) return null;
+    if (typeof option === 'object') return option;
+
+    // Development always scans so new routes show up without a rebuild
+    if (option === undefined && !this.production) return null;
+
+    const manifestPath = join(this.baseDir, option ?? ROUTE_MANIFEST_PATH);
+    if (!existsSync(manifestPath)) {
+      console.warn(`Route manifest not found at ${manifestPath}; scanning routes instead. Run \`zyte build\` to generate it.`);
+      return null;
+    }
+    const manifest: RouteManifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+    if (manifest.version !== ROUTE_MANIFEST_VERSION || !Array.isArray(manifest.routes)) {
+      console.warn(`Unsupported route manifest at ${manifestPath}; scanning routes instead.`);
+      return null;
+    }
+    return manifest;
+  }
+
+  public toManifest(): RouteManifest {
+    return { version: ROUTE_MANIFEST_VERSION, routes: this.getRoutes() };
   }
 
   public getRoutesMap(): Map<string, RouteConfig> {
@@ -39,35 +233,91 @@ export class ZyteSSR {
     const routesDir = join(this.baseDir, this.routesDir);
     if (!existsSync(routesDir)) return;
 
-    this.scanRoutesDirectory(routesDir, '');
+    this.scanRoutesDirectory(routesDir, '', {
+      layouts: this.findLayout(routesDir),
+      middleware: this.findMiddleware(routesDir)
+    });
+    this.indexDynamicRoutes();
+  }
+
+  private indexDynamicRoutes() {
+    // Dynamic routes are matched in order, most specific first
+    this.dynamicRoutes = Array.from(this.routes.values())
+      .filter(route => route.params && route.params.length > 0)
+      .sort((a, b) => compareRouteSpecificity(a.path, b.path));
   }
 
-  private scanRoutesDirectory(dir: string, prefix: string) {
+  private scanRoutesDirectory(dir: string, prefix: string, inherited: { layouts: string[]; middleware: string[] }) {
     try {
-      const items = readdirSync(dir);
+      // Sorted so discovery (and duplicate resolution) does not depend on file system order
+      const items = readdirSync(dir).sort();
       
       for (const item of items) {
         const fullPath = join(dir, item);
         const stat = statSync(fullPath);
         
         if (stat.isDirectory()) {
+          // Layouts and middleware in this directory apply to its own route and everything below it
+          const dirLayouts = [...inherited.layouts, ...this.findLayout(fullPath)];
+          const dirMiddleware = [...inherited.middleware, ...this.findMiddleware(fullPath)];
+          const routePath = prefix ? `${prefix}/${item}` : item;
+
           // Check if this directory contains route files
-          const routeFiles = readdirSync(fullPath).filter(file => 
-            (file.endsWith('.ts') || file.endsWith('.js')) && !file.endsWith('.client.ts')
+          const routeFiles = readdirSync(fullPath).sort().filter(file => 
+            COMPONENT_EXTENSIONS.includes(extname(file)) && !/\.client\.\w+$/.test(file) && !isSpecialRouteFile(file)
           );
+          const componentFile = this.selectRouteComponent(routePath, item, fullPath, routeFiles);
           
-          if (routeFiles.length > 0) {
-            const routeName = routeFiles[0].replace(extname(routeFiles[0]), '');
-            const routePath = prefix ? `${prefix}/${item}` : item;
-            
-            this.routes.set(routePath, {
+          if (componentFile) {
+            const routeName = componentFile.replace(extname(componentFile), '');
+            const params = getRouteParamNames(routePath);
+            const templatePath = join(fullPath, `${routeName}.html`);
+            const clientPath = join(fullPath, `${routeName}.client.ts`);
+            const styles = [...dirLayouts.map(layout => join(this.baseDir, layout)), templatePath]
+              .map(template => template.replace(/\.html$/, '.css'))
+              .filter(cssPath => existsSync(cssPath))
+              .map(cssPath => this.toPublicUrl(cssPath));
+            const route: RouteConfig = {
               path: routePath,
-              component: join(relative(this.baseDir, fullPath), routeFiles[0])
-            });
+              component: join(relative(this.baseDir, fullPath), componentFile),
+              ...(existsSync(templatePath) ? { template: relative(this.baseDir, templatePath) } : {}),
+              ...(dirLayouts.length > 0 ? { layout: dirLayouts[dirLayouts.length - 1], layouts: dirLayouts } : {}),
+              ...(dirMiddleware.length > 0 ? { middleware: dirMiddleware } : {}),
+              ...(styles.length > 0 ? { styles } : {}),
+              ...(existsSync(clientPath) ? { client: this.toPublicUrl(clientPath.replace(/\.ts$/, '.js'), '/client') } : {}),
+              ...(params.length > 0 ? { params } : {})
+            };
+
+            const duplicate = this.findEquivalentRoute(routePath);
+            if (duplicate) {
+              this.diagnostics.push({
+                level: 'error',
+                code: 'duplicate-route',
+                path: routePath,
+                files: [duplicate.component, route.component],
+                message: `Route "${routePath}" matches the same URLs as "${duplicate.path}" and was ignored`
+              });
+            } else {
+              this.routes.set(routePath, route);
+              if (!route.template && !exportsHttpHandlers(readFileSync(join(fullPath, componentFile), 'utf-8'))) {
+                this.diagnostics.push({
+                  level: 'warning',
+                  code: 'missing-template',
+                  path: routePath,
+                  files: [route.component],
+                  message: `Route "${routePath}" has no ${routeName}.html template and exports no HTTP method handlers`
+                });
+              }
+            }
           }
           
           // Recursively scan subdirectories
-          this.scanRoutesDirectory(fullPath, prefix ? `${prefix}/${item}` : item);
+          this.scanRoutesDirectory(fullPath, routePath, {
+            layouts: dirLayouts,
+            middleware: dirMiddleware
+          });
+        } else if (extname(item) === '.md') {
+          this.addMarkdownRoute(dir, prefix, item, inherited);
         }
       }
     } catch (error) {
@@ -75,221 +325,807 @@ export class ZyteSSR {
     }
   }
 
+  /**
+   * Registers a Markdown page. `docs/docs.md` and `docs/page.md` are the `docs` route,
+   * any other `docs/intro.md` is `docs/intro`. A route component in the same directory wins.
+   */
+  private addMarkdownRoute(dir: string, prefix: string, file: string, inherited: { layouts: string[]; middleware: string[] }) {
+    const name = basename(file, '.md');
+    const isIndex = prefix !== '' && (name === basename(dir) || name === 'page');
+    const routePath = isIndex ? prefix : prefix ? `${prefix}/${name}` : name;
+    const markdownPath = relative(this.baseDir, join(dir, file));
+    const params = getRouteParamNames(routePath);
+    const styles = inherited.layouts
+      .map(layout => join(this.baseDir, layout).replace(/\.html$/, '.css'))
+      .filter(cssPath => existsSync(cssPath))
+      .map(cssPath => this.toPublicUrl(cssPath));
+    const route: RouteConfig = {
+      path: routePath,
+      component: markdownPath,
+      template: markdownPath,
+      ...(inherited.layouts.length > 0 ? { layout: inherited.layouts[inherited.layouts.length - 1], layouts: inherited.layouts } : {}),
+      ...(inherited.middleware.length > 0 ? { middleware: inherited.middleware } : {}),
+      ...(styles.length > 0 ? { styles } : {}),
+      ...(params.length > 0 ? { params } : {})
+    };
+
+    const duplicate = this.findEquivalentRoute(routePath);
+    if (duplicate) {
+      // Expected next to a route component, which takes precedence; elsewhere it is a conflict
+      const besideComponent = isIndex && dirname(join(this.baseDir, duplicate.component)) === dir;
+      this.diagnostics.push({
+        level: besideComponent ? 'warning' : 'error',
+        code: 'duplicate-route',
+        path: routePath,
+        files: [duplicate.component, route.component],
+        message: besideComponent
+          ? `Markdown page ${markdownPath} was ignored because route "${routePath}" has a route component`
+          : `Route "${routePath}" matches the same URLs as "${duplicate.path}" and was ignored`
+      });
+      return;
+    }
+    this.routes.set(routePath, route);
+  }
+
+  /**
+   * Picks the route component of a directory by convention: the file named after
+   * the folder (`about/about.ts` or `about.tsx`), or else `page.ts`. Other modules are helpers.
+   */
+  private selectRouteComponent(routePath: string, dirName: string, dir: string, files: string[]): string | null {
+    if (files.length === 0) return null;
+
+    const candidates = [dirName, 'page']
+      .flatMap(name => COMPONENT_EXTENSIONS.map(ext => `${name}${ext}`))
+      .filter(file => files.includes(file));
+    const toRelative = (file: string) => relative(this.baseDir, join(dir, file));
+    if (candidates.length === 0) {
+      this.diagnostics.push({
+        level: 'warning',
+        code: 'missing-component',
+        path: routePath,
+        files: files.map(toRelative),
+        message: `Directory "${routePath}" has modules but no route component; name it ${dirName}.ts or page.ts`
+      });
+      return null;
+    }
+    if (candidates.length > 1) {
+      this.diagnostics.push({
+        level: 'warning',
+        code: 'ambiguous-component',
+        path: routePath,
+        files: candidates.map(toRelative),
+        message: `Directory "${routePath}" has several route components; using ${candidates[0]}`
+      });
+    }
+    return candidates[0];
+  }
+
+  // Finds an already registered route matching exactly the same URLs (e.g. posts/[id] and posts/[slug])
+  private findEquivalentRoute(routePath: string): RouteConfig | null {
+    const pattern = normalizeRoutePattern(routePath);
+    for (const route of this.routes.values()) {
+      if (normalizeRoutePattern(route.path) === pattern) return route;
+    }
+    return null;
+  }
+
+  /**
+   * Problems found while scanning the routes directory, such as duplicate routes
+   * or directories without a conventional component. `zyte build` fails on errors.
+   */
+  public getRouteDiagnostics(): RouteDiagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * Renders one of the special pages in `src/app/` (`app`, `404`, `error`) through
+   * the normal template pipeline. Returns null when the page has no template.
+   */
+  private async renderAppPage(name: string, context: SSRContext): Promise<string | null> {
+    const parts = await this.startAppPage(name, context);
+    return parts && this.completePage(parts, context);
+  }
+
+  private async startAppPage(name: string, context: SSRContext): Promise<Promise<string>[] | null> {
+    this.headFor(context);
+    const appDir = join(this.baseDir, 'src', 'app');
+    const htmlPath = join(appDir, `${name}.html`);
+    if (!this.fileExists(htmlPath)) return null;
+
+    const componentPath = COMPONENT_EXTENSIONS
+      .map(ext => join(appDir, `${name}${ext}`))
+      .find(candidate => this.fileExists(candidate));
+    const component = componentPath ? await this.loadComponent(componentPath) : {};
+    if (this.fileExists(join(appDir, `${name}.css`))) {
+      this.headFor(context).stylesheet(`/app/${name}.css`);
+    }
+    return this.loadTemplate(htmlPath).parts(component, context, {});
+  }
+
+  /**
+   * Starts `src/app/404.html` (or the built-in page) and marks the response as 404.
+   */
+  private async startNotFound(context: SSRContext): Promise<Promise<string>[]> {
+    context.status = 404;
+    return (await this.startAppPage('404', context)) ?? [Promise.resolve(this.render404())];
+  }
+
+  /**
+   * Renders `src/app/error.html` for an error thrown while handling a request.
+   * The error is exposed to the template as `{{ error.message }}`/`{{ error.status }}`.
+   * Never throws: if the error page itself fails, a generic page is returned.
+   */
+  public async renderError(error: unknown, context: SSRContext): Promise<string> {
+    const status = HttpError.isHttpError(error) ? error.status : 500;
+    context.status = status;
+    context.error = {
+      status,
+      message: error instanceof Error ? error.message : String(error),
+      ...(!this.production && error instanceof Error ? { stack: error.stack } : {})
+    };
+    // Entries from the page that failed do not describe the error page
+    context.head = new HeadManager();
+    try {
+      const html = await this.renderAppPage('error', context);
+      if (html !== null) return html;
+    } catch (pageError) {
+      console.error('Error rendering error page:', pageError);
+    }
+    return this.renderErrorFallback(status);
+  }
+
+  // Maps a file under src/ to the URL it is served from, e.g. src/routes/foo/foo.css -> /routes/foo/foo.css
+  private toPublicUrl(filePath: string, prefix: string = ''): string {
+    return `${prefix}/${relative(join(this.baseDir, 'src'), filePath).replace(/\\/g, '/')}`;
+  }
+
+  // Returns the directory's layout template (relative to baseDir) as a zero- or one-element chain
+  private findLayout(dir: string): string[] {
+    const layoutPath = join(dir, 'layout.html');
+    return existsSync(layoutPath) ? [relative(this.baseDir, layoutPath)] : [];
+  }
+
+  // Returns the directory's middleware module (relative to baseDir) as a zero- or one-element chain
+  private findMiddleware(dir: string): string[] {
+    return ['middleware.ts', 'middleware.js']
+      .map(file => join(dir, file))
+      .filter(candidate => existsSync(candidate))
+      .slice(0, 1)
+      .map(candidate => relative(this.baseDir, candidate));
+  }
+
+  /**
+   * Runs the project middleware for a request: `src/middleware.ts` first, then any
+   * `middleware.ts` files in the matched route's directories from the root down.
+   * Returns the first `Response` a middleware produces, or undefined to continue.
+   */
+  public async runMiddleware(request: Request, context: SSRContext): Promise<Response | undefined> {
+    context.locals = context.locals || {};
+    const match = this.matchRoute(new URL(request.url).pathname);
+    if (match) {
+      context.params = { ...context.params, ...match.params };
+    }
+
+    for (const modulePath of this.middlewareChain(match)) {
+      const module = await this.loadComponent(join(this.baseDir, modulePath));
+      const exported = module.middleware ?? module.default;
+      const handlers: Middleware[] = Array.isArray(exported) ? exported : exported ? [exported] : [];
+      for (const handler of handlers) {
+        const response = await handler(request, context);
+        if (response instanceof Response) return response;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether any middleware runs for a URL path. Middleware can make a page depend on
+   * the request (through `context.locals`), so such pages are not cached.
+   */
+  public hasMiddleware(path: string): boolean {
+    return this.middlewareChain(this.matchRoute(path)).length > 0;
+  }
+
+  private middlewareChain(match: RouteMatch | null): string[] {
+    return [...this.findMiddleware(join(this.baseDir, 'src')), ...(match?.route.middleware || [])];
+  }
+
   public async render(path: string, context: SSRContext = { params: {}, query: {}, headers: {} }): Promise<string> {
+    return this.completePage(await this.startPage(path, context), context);
+  }
+
+  /**
+   * Renders a page as a stream of UTF-8 chunks. The document up to `</head>` is sent
+   * as soon as it is rendered, with the page's head entries merged, so the browser can
+   * fetch CSS while slow expressions further down are still resolving. The rest follows
+   * in document order, each top-level part of the page as soon as it is done.
+   *
+   * Routing and component loading happen before the stream is returned, so errors
+   * there reject and `context.status` is already decided. A tag failing in strict
+   * mode after that errors the stream. Pages without a `</head>` are sent once complete.
+   * Head entries added after the head was sent are dropped, except stylesheets and scripts.
+   */
+  public async renderStream(path: string, context: SSRContext = { params: {}, query: {}, headers: {} }): Promise<ReadableStream<Uint8Array>> {
+    const parts = await this.startPage(path, context);
+    // Parts are awaited one by one; one failing before its turn must not be reported as unhandled
+    for (const part of parts) part.catch(() => {});
+    const head = this.headFor(context);
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+      start: async controller => {
+        // The document so far, held back until </head> where the head entries are merged
+        let pending: string | null = '';
+        try {
+          for (const part of parts) {
+            let chunk = await part;
+            if (pending !== null) {
+              pending += chunk;
+              if (!pending.includes('</head>')) continue;
+              chunk = head.apply(pending);
+              pending = null;
+            } else {
+              // Partials rendered after the head was sent link their CSS and scripts in the body, ahead of their markup
+              chunk = head.takeLateEntries() + chunk;
+            }
+            controller.enqueue(encoder.encode(chunk));
+          }
+          if (pending) controller.enqueue(encoder.encode(pending));
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      }
+    });
+  }
+
+  // Resolves the page for a path and starts rendering it, including its layouts
+  private async startPage(path: string, context: SSRContext): Promise<Promise<string>[]> {
+    // Created before any template part starts, so component functions can use context.head
+    this.headFor(context);
     // Special case: root path loads app component
     if (path === '/' || path === '') {
-      const appComponentPath = join(this.baseDir, 'src', 'app', 'app.ts');
-      const appHtmlPath = join(this.baseDir, 'src', 'app', 'app.html');
-      if (!existsSync(appHtmlPath)) {
+      const parts = await this.startAppPage('app', context);
+      if (parts === null) {
         throw new Error(`HTML template not found for app component: src/app/app.html`);
       }
-      let html = readFileSync(appHtmlPath, 'utf-8');
-      // Inject CSS if exists
-      const appCssPath = join(this.baseDir, 'src', 'app', 'app.css');
-      if (existsSync(appCssPath)) {
-        html = html.replace('</head>', `<link rel="stylesheet" href="/app/app.css">
-</head>`);
-      }
-      const component = await this.loadComponent(appComponentPath);
-      let processedHtml = await this.processTemplate(html, component, context);
-      return processedHtml;
+      return parts;
     }
 
     // Normal route logic
-    const route = this.findRoute(path);
-    if (!route) {
-      return this.render404();
+    const match = this.matchRoute(path);
+    if (!match) {
+      return this.startNotFound(context);
     }
+    const { route } = match;
+    context.params = { ...context.params, ...match.params };
+    if (isMarkdownRoute(route)) return this.startMarkdownPage(route, context);
 
     const componentPath = join(this.baseDir, route.component);
-    let htmlPath: string;
-    if (extname(componentPath)) {
-      htmlPath = componentPath.replace(extname(componentPath), '.html');
-    } else {
-      htmlPath = componentPath + '.html';
-    }
-    if (!existsSync(htmlPath)) {
+    if (!route.template) {
       throw new Error(`HTML template not found for route: ${route.component}`);
     }
+    const htmlPath = join(this.baseDir, route.template);
 
-    let html = readFileSync(htmlPath, 'utf-8');
-    // Inject CSS if exists
-    const cssPath = htmlPath.replace(/\.html$/, '.css');
-    if (existsSync(cssPath)) {
-      // Compute public URL for CSS
-      const relCss = relative(join(this.baseDir, 'src'), cssPath).replace(/\\/g, '/');
-      html = html.replace('</head>', `<link rel="stylesheet" href="/${relCss}">
-</head>`);
-    }
     const component = await this.loadComponent(componentPath);
-    let processedHtml = await this.processTemplate(html, component, context);
-    return processedHtml;
+    if (typeof component.load === 'function') {
+      // Runs once, before any template function. A thrown redirect() response propagates to the caller.
+      try {
+        context.data = (await component.load(context)) ?? {};
+      } catch (error) {
+        if (HttpError.isHttpError(error) && error.status === 404) return this.startNotFound(context);
+        throw error;
+      }
+    }
+
+    // CSS for layouts (outermost first) and the route itself. It is linked once the
+    // layouts are applied, because the route template may not have a <head>.
+    for (const href of route.styles || []) {
+      this.headFor(context).stylesheet(href);
+    }
+    const parts = this.loadTemplate(htmlPath).parts(component, context, {});
+    return this.applyLayouts(parts, route.layouts || [], context);
+  }
+
+  /**
+   * Starts a Markdown route. The frontmatter is available to layouts as `{{ page.* }}`;
+   * its `title` and `description` also become the page's title and meta description.
+   * `layout: docs` wraps the page in `src/layouts/docs.html`, inside the directory layouts.
+   */
+  private async startMarkdownPage(route: RouteConfig, context: SSRContext): Promise<Promise<string>[]> {
+    const { page, html } = this.loadMarkdown(join(this.baseDir, route.template!));
+    const head = this.headFor(context);
+    if (page.title != null) head.title(String(page.title));
+    if (page.description != null) head.meta({ name: 'description', content: String(page.description) });
+
+    const layouts = [...(route.layouts || [])];
+    const styles = [...(route.styles || [])];
+    if (page.layout) {
+      if (typeof page.layout !== 'string' || !/^[\w-]+(\/[\w-]+)*$/.test(page.layout)) {
+        throw new Error(`Invalid layout "${page.layout}" in ${route.template}, expected a name in src/layouts`);
+      }
+      const layoutPath = join(this.baseDir, 'src', 'layouts', `${page.layout}.html`);
+      if (!this.fileExists(layoutPath)) {
+        throw new Error(`Layout not found for ${route.template}: ${relative(this.baseDir, layoutPath)}`);
+      }
+      layouts.push(relative(this.baseDir, layoutPath));
+      const cssPath = layoutPath.replace(/\.html$/, '.css');
+      if (this.fileExists(cssPath)) styles.push(this.toPublicUrl(cssPath));
+    }
+    for (const href of styles) {
+      head.stylesheet(href);
+    }
+    return this.applyLayouts([Promise.resolve(html)], layouts, context, { page });
+  }
+
+  // Parses a Markdown page once; in development it is parsed again when the file changes
+  private loadMarkdown(markdownPath: string): MarkdownPage {
+    const version = this.fileVersion(markdownPath);
+    const cached = this.markdownPages.get(markdownPath);
+    if (cached && cached.version === version) return cached.value;
+
+    const page = parseMarkdownPage(readFileSync(markdownPath, 'utf-8'), relative(this.baseDir, markdownPath));
+    this.markdownPages.set(markdownPath, { version, value: page });
+    return page;
+  }
+
+  // Waits for every part of a started page and merges the head entries into it
+  private async completePage(parts: Promise<string>[], context: SSRContext): Promise<string> {
+    return this.headFor(context).apply((await Promise.all(parts)).join(''));
+  }
+
+  // The page's head entries. Middleware may have started them before rendering.
+  private headFor(context: SSRContext): HeadManager {
+    context.head ??= new HeadManager();
+    return context.head;
+  }
+
+  /**
+   * Wraps rendered route HTML in its layout chain, innermost first. Each layout
+   * is processed with its optional `layout.ts` exports and receives the inner
+   * HTML through the `{{ slot }}` placeholder. A layout starts rendering before the
+   * inner HTML is done: `slot` is a promise that `{{ slot }}` waits for, so the
+   * outermost layout's <head> can be streamed right away. `values` are passed to
+   * every layout alongside its exports, like the frontmatter of a Markdown page.
+   */
+  private async applyLayouts(parts: Promise<string>[], layouts: string[], context: SSRContext, values: Record<string, any> = {}): Promise<Promise<string>[]> {
+    for (let i = layouts.length - 1; i >= 0; i--) {
+      const layoutHtmlPath = join(this.baseDir, layouts[i]);
+      const layoutComponentPath = COMPONENT_EXTENSIONS
+        .map(ext => layoutHtmlPath.replace(/\.html$/, ext))
+        .find(candidate => this.fileExists(candidate));
+      const component = layoutComponentPath ? await this.loadComponent(layoutComponentPath) : {};
+      const slot = Promise.all(parts).then(results => new SafeHtml(results.join('')));
+      slot.catch(() => {}); // Surfaces through {{ slot }}; a layout without one drops the page
+      parts = this.loadTemplate(layoutHtmlPath).parts({ ...component, ...values, slot }, context, {});
+    }
+    return parts;
   }
 
   private findRoute(path: string): RouteConfig | null {
-    // Remove leading slash and normalize path
-    const normalizedPath = path.startsWith('/') ? path.slice(1) : path;
+    return this.matchRoute(path)?.route || null;
+  }
+
+  /**
+   * Resolves a URL path to its route, extracting values for dynamic segments
+   * such as `users/[id]` or `docs/[...slug]`. Static routes always win over
+   * dynamic ones, and catch-alls are tried last.
+   */
+  public matchRoute(path: string): RouteMatch | null {
+    // Remove leading/trailing slashes and normalize path
+    const normalizedPath = path.replace(/^\/+|\/+$/g, '');
     
     // Direct match
-    if (this.routes.has(normalizedPath)) {
-      return this.routes.get(normalizedPath) || null;
+    const staticRoute = this.routes.get(normalizedPath);
+    if (staticRoute && !staticRoute.params) {
+      return { route: staticRoute, params: {} };
     }
     
     // Handle root path
     if (normalizedPath === '' || normalizedPath === 'index') {
-      return this.routes.get('home') || this.routes.get('index') || null;
+      const rootRoute = this.routes.get('home') || this.routes.get('index');
+      return rootRoute ? { route: rootRoute, params: {} } : null;
+    }
+    
+    const segments = normalizedPath.split('/');
+    for (const route of this.dynamicRoutes) {
+      const params = matchRouteSegments(route.path.split('/'), segments);
+      if (params) {
+        return { route, params };
+      }
     }
     
     return null;
   }
 
+  /**
+   * Dispatches a request to an API route: a route module exporting HTTP method
+   * handlers such as `GET(request, context)` or `POST(request, context)`.
+   * Returns null when the path is not an API route so it can be rendered as a page.
+   */
+  public async handleApiRoute(request: Request, context: SSRContext): Promise<Response | null> {
+    const match = this.matchRoute(new URL(request.url).pathname);
+    if (!match || isMarkdownRoute(match.route)) return null;
+
+    const module = await this.loadComponent(join(this.baseDir, match.route.component));
+    const allowed = HTTP_METHODS.filter(method => typeof module[method] === 'function');
+    if (allowed.length === 0) return null;
+
+    context.params = { ...context.params, ...match.params };
+    const method = request.method.toUpperCase();
+    // HEAD falls back to GET; the runtime drops the body
+    const handler: RouteHandler | undefined = module[method] ?? (method === 'HEAD' ? module.GET : undefined);
+    if (typeof handler !== 'function') {
+      const allow = allowed.includes('GET') && !allowed.includes('HEAD') ? [...allowed, 'HEAD'] : allowed;
+      if (method === 'OPTIONS') {
+        return new Response(null, { status: 204, headers: { Allow: allow.join(', ') } });
+      }
+      return new Response('Method Not Allowed', {
+        status: 405,
+        headers: { Allow: allow.join(', '), 'Content-Type': 'text/plain; charset=utf-8' }
+      });
+    }
+
+    const response = await handler(request, context);
+    if (!(response instanceof Response)) {
+      throw new Error(`API route handler ${method} in ${match.route.component} must return a Response`);
+    }
+    return response;
+  }
+
+  /**
+   * Runs the page module's exported `action(context)` for a form submission.
+   * A returned `Response` (e.g. from `redirect()`) should be sent as-is; any other
+   * value is stored as `context.actionResult` and the page is then rendered again.
+   */
+  public async runAction(path: string, context: SSRContext): Promise<Response | undefined> {
+    let componentPath: string | undefined;
+    if (path === '/' || path === '') {
+      componentPath = COMPONENT_EXTENSIONS
+        .map(ext => join(this.baseDir, 'src', 'app', `app${ext}`))
+        .find(candidate => this.fileExists(candidate));
+    } else {
+      const match = this.matchRoute(path);
+      if (match && !isMarkdownRoute(match.route)) {
+        componentPath = join(this.baseDir, match.route.component);
+        context.params = { ...context.params, ...match.params };
+      }
+    }
+    if (!componentPath) return undefined;
+
+    const component = await this.loadComponent(componentPath);
+    if (typeof component.action !== 'function') return undefined;
+
+    const result = await component.action(context);
+    if (result instanceof Response) return result;
+    context.actionResult = result ?? {};
+    return undefined;
+  }
+
   private async loadComponent(componentPath: string): Promise<any> {
-    if (extname(componentPath) === '.ts' || extname(componentPath) === '.js') {
-      const module = await import(componentPath + `?t=${Date.now()}`);
-      return module;
+    if (!COMPONENT_EXTENSIONS.includes(extname(componentPath))) {
+      throw new Error(`Unsupported component type: ${extname(componentPath)}`);
     }
-    throw new Error(`Unsupported component type: ${extname(componentPath)}`);
+    const version = this.fileVersion(componentPath);
+    const cached = this.modules.get(componentPath);
+    if (cached && cached.version === version) return cached.value;
+
+    // A changed file gets a new URL so the runtime evaluates it again; unchanged files keep their instance
+    const module = await import(this.production ? componentPath : `${componentPath}?v=${encodeURIComponent(version)}`);
+    this.modules.set(componentPath, { version, value: module });
+    return module;
+  }
+
+  /**
+   * Returns the compiled render function for a template file. Templates are parsed
+   * once; in development they are recompiled when the file changes.
+   */
+  private loadTemplate(templatePath: string): CompiledTemplate {
+    const version = this.fileVersion(templatePath);
+    const cached = this.templates.get(templatePath);
+    if (cached && cached.version === version) return cached.value;
+
+    const render = this.compileTemplate(readFileSync(templatePath, 'utf-8'), relative(this.baseDir, templatePath));
+    this.templates.set(templatePath, { version, value: render });
+    return render;
+  }
+
+  // Identifies the current contents of a file. Production deployments never change files, so no stat is needed.
+  private fileVersion(filePath: string): string {
+    if (this.production) return 'production';
+    const stat = statSync(filePath);
+    return `${stat.mtimeMs}-${stat.size}`;
+  }
+
+  // existsSync, remembered in production where the project files are fixed
+  private fileExists(filePath: string): boolean {
+    if (!this.production) return existsSync(filePath);
+    let exists = this.existingFiles.get(filePath);
+    if (exists === undefined) {
+      exists = existsSync(filePath);
+      this.existingFiles.set(filePath, exists);
+    }
+    return exists;
   }
 
   private async processTemplate(html: string, component: any, context: SSRContext): Promise<string> {
-    const regex = /\{\{\s*([^}]+)\s*\}\}/g;
-    let result = '';
-    let lastIndex = 0;
-    let match: RegExpExecArray | null;
-    while ((match = regex.exec(html)) !== null) {
-      result += html.slice(lastIndex, match.index);
-      const expression = match[1].trim();
-      try {
-        const funcMatch = expression.match(/^(\w+)\s*\(([^)]*)\)$/);
-        if (funcMatch) {
-          const [, funcName, argsStr] = funcMatch;
-          const func = component[funcName];
-          if (typeof func === 'function') {
-            const args = argsStr ? this.parseTemplateArgs(argsStr, context) : [];
-            const value = await func(...args, context);
-            result += (value ?? '');
-          } else {
-            console.warn(`Function ${funcName} not found in component`);
-            result += match[0];
+    return this.compileTemplate(html, 'inline template')(component, context, {});
+  }
+
+  // `file` is only used to locate errors, relative to baseDir for template files
+  private compileTemplate(text: string, file: string): CompiledTemplate {
+    const source: TemplateSource = { text, file };
+    let nodes: TemplateNode[];
+    try {
+      nodes = parseTemplate(text);
+    } catch (error) {
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      // Malformed structure cannot be rendered at all, so this fails in every mode
+      const end = findTagEnd(text, error.position + 2);
+      const tag = text.slice(error.position + 2, end === -1 ? undefined : end).replace(/^\{/, '').trim();
+      const { line, column } = getLineAndColumn(text, error.position);
+      throw new TemplateError(error.message, file, line, column, tag, { cause: error });
+    }
+    return this.compileNodes(nodes, source);
+  }
+
+  // Sibling parts render concurrently, so independent async helpers overlap; output keeps document order
+  private compileNodes(nodes: TemplateNode[], source: TemplateSource): CompiledTemplate {
+    const compiled = nodes.map(node => this.compileNode(node, source));
+    const parts = (component: any, context: SSRContext, variables: Record<string, any>) =>
+      compiled.map(part => part(component, context, variables));
+    const render = async (component: any, context: SSRContext, variables: Record<string, any>) =>
+      (await Promise.all(parts(component, context, variables))).join('');
+    return Object.assign(render, { parts });
+  }
+
+  // Variables are the names introduced by {{#each}} blocks (or partial props), visible to everything inside them
+  private compileNode(node: TemplateNode, source: TemplateSource): RenderFunction {
+    if (node.type === 'text') {
+      const text = node.value;
+      return async () => text;
+    }
+
+    if (node.type === 'expression') {
+      const evaluateTag = this.compileExpression(node.source);
+      return async (component, context, variables) => {
+        try {
+          const value = await evaluateTag(component, context, variables);
+          return node.raw || !this.autoEscape ? String(value ?? '') : toHtml(value);
+        } catch (error) {
+          return this.handleTemplateError(error, source, node.start, node.source);
+        }
+      };
+    }
+
+    if (node.type === 'partial') {
+      return async (component, context, variables) => {
+        try {
+          return await this.renderPartial(node, component, context, variables);
+        } catch (error) {
+          return this.handleTemplateError(error, source, node.start, node.tag.slice(2, -2).trim());
+        }
+      };
+    }
+
+    if (node.type === 'if') {
+      const branches = node.branches.map(branch => ({
+        ...branch,
+        evaluateTest: this.compileExpression(branch.test),
+        render: this.compileNodes(branch.body, source)
+      }));
+      const alternate = this.compileNodes(node.alternate, source);
+      return async (component, context, variables) => {
+        let render = alternate;
+        for (const branch of branches) {
+          let matches: boolean;
+          try {
+            matches = Boolean(await branch.evaluateTest(component, context, variables));
+          } catch (error) {
+            const tag = branch === branches[0] ? `#if ${branch.test}` : `else if ${branch.test}`;
+            return this.handleTemplateError(error, source, branch.start, tag);
+          }
+          if (matches) {
+            render = branch.render;
+            break;
           }
-        } else {
-          const value = this.evaluateExpression(expression, component, context);
-          result += (value ?? '');
         }
+        return render(component, context, variables);
+      };
+    }
+
+    const evaluateList = this.compileExpression(node.source);
+    const body = this.compileNodes(node.body, source);
+    const empty = this.compileNodes(node.empty, source);
+    return async (component, context, variables) => {
+      let items: any[];
+      try {
+        const value = await evaluateList(component, context, variables);
+        items = value == null ? [] : Array.from(value);
       } catch (error) {
-        console.error(`Error processing template expression ${expression}:`, error);
-        result += match[0];
+        return this.handleTemplateError(error, source, node.start, `#each ${node.source} as ${node.item}`);
       }
-      lastIndex = regex.lastIndex;
+      if (items.length === 0) return empty(component, context, variables);
+      const results = await Promise.all(items.map((item, index) =>
+        body(component, context, { ...variables, [node.item]: item, ...(node.index ? { [node.index]: index } : {}) })
+      ));
+      return results.join('');
+    };
+  }
+
+  /**
+   * Runs an expression evaluation within the page's `concurrency` limit. Only
+   * expressions take a slot (not blocks, partials or bare names), so nesting cannot deadlock.
+   */
+  private limitConcurrency<T>(context: SSRContext, task: () => Promise<T>): Promise<T> {
+    if (!this.concurrency) return task();
+    let limiter = this.limiters.get(context);
+    if (!limiter) {
+      limiter = createLimiter(this.concurrency);
+      this.limiters.set(context, limiter);
     }
-    result += html.slice(lastIndex);
-    return result;
+    return limiter(task);
   }
 
-  private parseTemplateArgs(argsStr: string, context: SSRContext): any[] {
-    if (!argsStr.trim()) return [];
-    
-    return argsStr.split(',').map(arg => {
-      arg = arg.trim();
-      
-      // Handle string literals
-      if ((arg.startsWith('"') && arg.endsWith('"')) || 
-          (arg.startsWith("'") && arg.endsWith("'"))) {
-        return arg.slice(1, -1);
-      }
-      
-      // Handle numbers
-      if (!isNaN(Number(arg))) {
-        return Number(arg);
-      }
-      
-      // Handle booleans
-      if (arg === 'true') return true;
-      if (arg === 'false') return false;
-      
-      // Handle null/undefined
-      if (arg === 'null') return null;
-      if (arg === 'undefined') return undefined;
-      
-      // Handle context access (query, params, headers)
-      if (arg.startsWith('query.') || arg.startsWith('params.') || arg.startsWith('headers.')) {
-        return this.evaluateExpression(arg, {}, context);
-      }
-      
-      // Return as string if no other type matches
-      return arg;
-    });
+  /**
+   * Handles a tag that failed to render: strict mode throws a TemplateError,
+   * otherwise the error is logged and collected, and the fallback is output.
+   */
+  private handleTemplateError(error: unknown, source: TemplateSource, start: number, expression: string): string {
+    // Already located by a nested template (a partial), only possible in strict mode
+    if (error instanceof TemplateError) throw error;
+
+    const { line, column } = getLineAndColumn(source.text, start);
+    const reason = error instanceof Error ? error.message : String(error);
+    const templateError = new TemplateError(reason, source.file, line, column, expression, { cause: error });
+    if (this.strict) throw templateError;
+
+    console.error(templateError.message);
+    if (this.templateErrors.length < MAX_TEMPLATE_ERRORS) this.templateErrors.push(templateError);
+    return this.errorFallback;
   }
 
-  private evaluateExpression(expression: string, component: any, context: SSRContext): any {
-    // Handle logical OR expressions (e.g., query.q || 'default')
-    if (expression.includes('||')) {
-      const parts = expression.split('||').map(part => part.trim());
-      for (const part of parts) {
-        const value = this.evaluateSingleExpression(part, component, context);
-        if (value) { // Use JavaScript-like truthiness
-          return value;
-        }
-      }
-      // If all parts are falsy, return the evaluated value of the last part.
-      return this.evaluateSingleExpression(parts[parts.length - 1], component, context);
-    }
-    
-    return this.evaluateSingleExpression(expression, component, context);
+  /**
+   * Template errors from non-strict renders, oldest first. Build and test tooling
+   * can assert this is empty; clearTemplateErrors() starts a new collection.
+   */
+  public getTemplateErrors(): TemplateError[] {
+    return this.templateErrors;
   }
 
-  private evaluateSingleExpression(expression: string, component: any, context: SSRContext): any {
-    // Handle context access first (query, params, headers)
-    if (expression.startsWith('query.')) {
-      const key = expression.slice(6); // Remove 'query.'
-      return context.query[key];
+  public clearTemplateErrors(): void {
+    this.templateErrors = [];
+  }
+
+  // Parses once at compile time; a syntax error is raised each time the expression is evaluated
+  private compileExpression(source: string): (component: any, context: SSRContext, variables: Record<string, any>) => Promise<any> {
+    let expression: Expression;
+    try {
+      expression = parseExpression(source);
+    } catch (error) {
+      return async () => { throw error; };
     }
-    
-    if (expression.startsWith('params.')) {
-      const key = expression.slice(7); // Remove 'params.'
-      return context.params[key];
+    // A bare name is only a lookup, so it needs no slot
+    if (expression.type === 'identifier') {
+      return async (component, context, variables) => evaluate(expression, this.createScope(component, context, variables));
     }
-    
-    if (expression.startsWith('headers.')) {
-      const key = expression.slice(8); // Remove 'headers.'
-      return context.headers[key];
+    const names = [...new Set(identifiersIn(expression))];
+    return async (component, context, variables) => {
+      const scope = this.createScope(component, context, variables);
+      // Promise values, such as a layout's `slot`, are awaited before taking a slot: `slot`
+      // waits for the page's own expressions, so holding a slot for it could deadlock
+      for (const name of names) {
+        const value = scope.lookup(name);
+        if (value instanceof Promise) await value;
+      }
+      return this.limitConcurrency(context, () => evaluate(expression, scope));
+    };
+  }
+
+  /**
+   * Renders `{{> name key=value }}` from `src/components/<name>.html` with its optional
+   * `.ts`/`.js` exports. The partial sees its props and the request context, but not
+   * the including template's component or loop variables. Its CSS is collected
+   * once per page through `context.head`.
+   *
+   * With a `hydrate` prop the partial is an island: it is wrapped in a root element
+   * with its props serialized, and `<name>.client.ts` hydrates it in the browser.
+   */
+  private async renderPartial(
+    node: Extract<TemplateNode, { type: 'partial' }>,
+    component: any,
+    context: SSRContext,
+    variables: Record<string, any>
+  ): Promise<string> {
+    const componentsDir = join(this.baseDir, 'src', 'components');
+    const htmlPath = join(componentsDir, `${node.name}.html`);
+    const island = node.props.some(prop => prop.key === 'hydrate');
+    // An island may render all of its markup in the browser
+    if (!island && !this.fileExists(htmlPath)) {
+      throw new Error(`Partial template not found: ${relative(this.baseDir, htmlPath)}`);
     }
-    
-    // Handle string literals
-    if ((expression.startsWith('"') && expression.endsWith('"')) || 
-        (expression.startsWith("'") && expression.endsWith("'"))) {
-      return expression.slice(1, -1);
+
+    const props: Record<string, any> = {};
+    const scope = this.createScope(component, context, variables);
+    for (const { key, value } of node.props) {
+      props[key] = await evaluate(value, scope);
     }
-    
-    // Handle numbers
-    if (!isNaN(Number(expression))) {
-      return Number(expression);
+
+    if (island) {
+      const { hydrate: strategy, ...islandProps } = props;
+      if (!isHydrationStrategy(strategy)) {
+        throw new Error(`Invalid hydrate value "${strategy}" for island "${node.name}", expected ${HYDRATION_STRATEGIES.join(', ')}`);
+      }
+      if (!['.ts', '.js'].some(ext => this.fileExists(join(componentsDir, `${node.name}.client${ext}`)))) {
+        throw new Error(`Island client module not found: ${relative(this.baseDir, join(componentsDir, `${node.name}.client.ts`))}`);
+      }
+      const head = this.headFor(context);
+      if (strategy === 'eager') head.link({ rel: 'modulepreload', href: islandModuleUrl(node.name) });
+      head.script({ type: 'module' }, ISLAND_LOADER);
+      const html = this.fileExists(htmlPath) ? await this.renderPartialTemplate(node.name, htmlPath, context, islandProps) : '';
+      return wrapIsland(node.name, strategy, islandProps, html);
     }
-    
-    // Handle booleans
-    if (expression === 'true') return true;
-    if (expression === 'false') return false;
-    
-    // Handle null/undefined
-    if (expression === 'null') return null;
-    if (expression === 'undefined') return undefined;
-    
-    // Handle simple property access from component
-    if (component[expression] !== undefined) {
-      return component[expression];
+    return this.renderPartialTemplate(node.name, htmlPath, context, props);
+  }
+
+  private async renderPartialTemplate(name: string, htmlPath: string, context: SSRContext, props: Record<string, any>): Promise<string> {
+    const componentsDir = join(this.baseDir, 'src', 'components');
+
+    const partialPath = COMPONENT_EXTENSIONS
+      .map(ext => join(componentsDir, `${name}${ext}`))
+      .find(candidate => this.fileExists(candidate));
+    const partialComponent = partialPath ? await this.loadComponent(partialPath) : {};
+
+    if (this.fileExists(join(componentsDir, `${name}.css`))) {
+      this.headFor(context).stylesheet(`/components/${name}.css`);
     }
-    
-    // Handle nested property access (e.g., data.title) from component
-    const parts = expression.split('.');
-    let value = component;
-    for (const part of parts) {
-      if (value && typeof value === 'object' && value[part] !== undefined) {
-        value = value[part];
-      } else {
-        return undefined; // Not found
+
+    return this.loadTemplate(htmlPath)(partialComponent, context, props);
+  }
+
+  private async evaluateExpression(expression: string, component: any, context: SSRContext, variables: Record<string, any> = {}): Promise<any> {
+    return evaluate(parseExpression(expression), this.createScope(component, context, variables));
+  }
+
+  // Identifiers resolve to block variables, then context values (query, params, ...), then component exports.
+  // Only own properties count, so a plain-object component does not expose Object.prototype.
+  private createScope(component: any, context: SSRContext, variables: Record<string, any>): EvaluationScope {
+    return {
+      lookup: name => {
+        if (Object.hasOwn(variables, name)) return variables[name];
+        if ((TEMPLATE_CONTEXT_KEYS as readonly string[]).includes(name)) {
+          return context[name as keyof SSRContext];
+        }
+        return Object.hasOwn(component, name) ? component[name] : undefined;
+      },
+      // Component functions receive the request context as their last argument
+      callFunction: (_name, fn, args) => fn(...args, context),
+      applyFilter: async (name, value, args) => {
+        const filter = (await this.loadFilters())[name];
+        if (typeof filter !== 'function') throw new Error(`Unknown filter "${name}"`);
+        return filter(value, ...args);
       }
+    };
+  }
+
+  /**
+   * Built-in filters, overridden by the functions exported from the project's
+   * `src/filters.ts` and then by the `filters` option.
+   */
+  private async loadFilters(): Promise<Record<string, TemplateFilter>> {
+    const filtersPath = ['.ts', '.js']
+      .map(ext => join(this.baseDir, 'src', `filters${ext}`))
+      .find(candidate => this.fileExists(candidate));
+    const module = filtersPath ? await this.loadComponent(filtersPath) : null;
+    if (this.filters && this.filters.module === module) return this.filters.registry;
+
+    const projectFilters: Record<string, TemplateFilter> = {};
+    for (const [name, value] of Object.entries(module ?? {})) {
+      if (typeof value === 'function') projectFilters[name] = value as TemplateFilter;
     }
-    return value;
+    const registry = { ...builtinFilters, ...projectFilters, ...this.filterOptions };
+    this.filters = { module, registry };
+    return registry;
   }
 
   private render404(): string {
@@ -312,54 +1148,219 @@ export class ZyteSSR {
     `;
   }
 
+  private renderErrorFallback(status: number): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <title>Error - Zyte SSR</title>
+    </head>
+    <body>
+        <h1>${status} - ${status === 500 ? 'Internal Server Error' : 'Error'}</h1>
+        <p>An error occurred while rendering the page.</p>
+    </body>
+    </html>
+    `;
+  }
+
   public getRoutes(): RouteConfig[] {
     return Array.from(this.routes.values());
   }
 }
 
+// Detects API route modules without importing them (see handleApiRoute)
+function exportsHttpHandlers(source: string): boolean {
+  const methods = HTTP_METHODS.join('|');
+  return new RegExp(`export\\s+(async\\s+)?(function\\*?|const|let|var)\\s+(${methods})\\b`).test(source) ||
+    new RegExp(`export\\s*\\{[^}]*\\b(${methods})\\b[^}]*\\}`).test(source);
+}
+
+// Markdown routes have no module: their component and template are the .md page
+function isMarkdownRoute(route: RouteConfig): boolean {
+  return extname(route.component) === '.md';
+}
+
+// Files in a route directory that have a framework meaning and are never the route component
+function isSpecialRouteFile(file: string): boolean {
+  return /^(layout|middleware)\.(ts|tsx|js)$/.test(file);
+}
+
+// --- Dynamic route segments ---
+// [id] matches one segment, [...slug] one or more, [[...slug]] zero or more
+type SegmentKind = 'static' | 'dynamic' | 'catchAll' | 'optionalCatchAll';
+
+const SEGMENT_PATTERNS: Array<[Exclude<SegmentKind, 'static'>, RegExp]> = [
+  ['optionalCatchAll', /^\[\[\.\.\.([A-Za-z_$][\w$]*)\]\]$/],
+  ['catchAll', /^\[\.\.\.([A-Za-z_$][\w$]*)\]$/],
+  ['dynamic', /^\[([A-Za-z_$][\w$]*)\]$/],
+];
+
+// Lower ranks are more specific
+const SEGMENT_RANK: Record<SegmentKind, number> = {
+  static: 0,
+  dynamic: 1,
+  catchAll: 2,
+  optionalCatchAll: 3,
+};
+
+function parseSegment(segment: string): { kind: SegmentKind; name: string } {
+  for (const [kind, pattern] of SEGMENT_PATTERNS) {
+    const match = segment.match(pattern);
+    if (match) return { kind, name: match[1] };
+  }
+  return { kind: 'static', name: segment };
+}
+
+// Replaces parameter names so that routes matching the same URLs compare equal
+function normalizeRoutePattern(routePath: string): string {
+  return routePath.split('/')
+    .map(segment => {
+      const { kind } = parseSegment(segment);
+      return kind === 'static' ? segment : `[${kind}]`;
+    })
+    .join('/');
+}
+
+function getRouteParamNames(routePath: string): string[] {
+  return routePath.split('/')
+    .map(parseSegment)
+    .filter(segment => segment.kind !== 'static')
+    .map(segment => segment.name);
+}
+
+function matchRouteSegments(routeSegments: string[], pathSegments: string[]): Record<string, string | string[]> | null {
+  const params: Record<string, string | string[]> = {};
+  for (let i = 0; i < routeSegments.length; i++) {
+    const { kind, name } = parseSegment(routeSegments[i]);
+    // Catch-all segments swallow the rest of the path and must come last
+    if (kind === 'catchAll' || kind === 'optionalCatchAll') {
+      if (i !== routeSegments.length - 1) return null;
+      const rest = pathSegments.slice(i).filter(Boolean);
+      if (kind === 'catchAll' && rest.length === 0) return null;
+      params[name] = rest.map(safeDecodeURIComponent);
+      return params;
+    }
+    if (i >= pathSegments.length) return null;
+    if (kind === 'dynamic') {
+      if (!pathSegments[i]) return null;
+      params[name] = safeDecodeURIComponent(pathSegments[i]);
+    } else if (routeSegments[i] !== pathSegments[i]) {
+      return null;
+    }
+  }
+  return routeSegments.length === pathSegments.length ? params : null;
+}
+
+// More specific segments sort first at the first position they differ
+function compareRouteSpecificity(a: string, b: string): number {
+  const aSegments = a.split('/');
+  const bSegments = b.split('/');
+  for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+    const aRank = SEGMENT_RANK[parseSegment(aSegments[i]).kind];
+    const bRank = SEGMENT_RANK[parseSegment(bSegments[i]).kind];
+    if (aRank !== bRank) return aRank - bRank;
+  }
+  return bSegments.length - aSegments.length;
+}
+
+function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Builds the context for rendering a request: query values, cookies, the method and
+ * URL, an empty `locals` bag, and setters for the response status, headers and cookies.
+ */
+export function createContext(request: Request, params: Record<string, string | string[]> = {}): SSRContext {
+  const url = new URL(request.url);
+  const query: Record<string, string> = {};
+  const queryAll: Record<string, string[]> = {};
+  url.searchParams.forEach((value, key) => {
+    query[key] = value;
+    (queryAll[key] ??= []).push(value);
+  });
+  const responseHeaders = new Headers();
+
+  const context: SSRContext = {
+    params,
+    query,
+    queryAll,
+    headers: Object.fromEntries(request.headers.entries()),
+    cookies: parseCookies(request.headers.get('cookie')),
+    method: request.method,
+    url,
+    request,
+    locals: {},
+    responseHeaders,
+    setStatus: status => {
+      context.status = status;
+    },
+    setHeader: (name, value) => responseHeaders.set(name, value),
+    setCookie: (name, value, options) => responseHeaders.append('Set-Cookie', serializeCookie(name, value, options))
+  };
+  return context;
+}
+
 // Export convenience functions
 export function createSSR(options?: ZyteSSROptions): ZyteSSR {
   return new ZyteSSR(options);
 }
 
+let defaultSSR: ZyteSSR | null = null;
+
 export function render(path: string, context?: SSRContext): Promise<string> {
-  const ssr = new ZyteSSR();
-  return ssr.render(path, context);
+  // Reuse one instance so routes are discovered (or the manifest loaded) only once
+  defaultSSR = defaultSSR || new ZyteSSR();
+  return defaultSSR.render(path, context);
 }
 
-// --- Built-in anti-XSS: HTML escaping helper (for use in html tag) ---
-export function escapeHtml(str: any): string {
-  if (str == null) return '';
-  if (typeof str !== 'string') str = String(str);
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
+/**
+ * Creates a redirect response, e.g. `return redirect('/thanks')` from a page action.
+ * Defaults to 303 See Other so the browser follows up with a GET.
+ */
+export function redirect(location: string, status: number = 303): Response {
+  return new Response(null, { status, headers: { Location: location } });
 }
 
+// Shared through the global symbol registry, like SafeHtml: project modules import
+// the `zyte` package while the server bundle carries its own copy of this class
+const HTTP_ERROR = Symbol.for('zyte.HttpError');
+
 /**
- * html tagged template literal for safe HTML interpolation.
- * Usage:
- *   import { html } from 'zyte';
- *   export function aboutPage(context) {
- *     return html`<div>User: ${context.query.user}</div>`;
- *   }
- * All interpolated values are automatically escaped to prevent XSS.
- * The result is a string, which you can return from your component functions.
- *
- * NOTE: The framework does NOT escape any output by default. It is the developer's responsibility
- * to use the html tag or escapeHtml utility for any untrusted data.
+ * An error that sets the response status, e.g. `throw new HttpError(403, 'Members only')`
+ * from a route's `load()`. The error page is rendered with this status.
  */
-export function html(strings: TemplateStringsArray, ...values: any[]): string {
-  let result = '';
-  for (let i = 0; i < strings.length; i++) {
-    result += strings[i];
-    if (i < values.length) {
-      result += escapeHtml(values[i]);
-    }
+export class HttpError extends Error {
+  readonly [HTTP_ERROR] = true;
+
+  constructor(public readonly status: number, message: string = `HTTP ${status}`) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  static isHttpError(value: any): value is HttpError {
+    return value != null && value[HTTP_ERROR] === true;
   }
-  return result;
 }
-// --- End anti-XSS helpers --- 
\ No newline at end of file
+
+/**
+ * `throw notFound()` from a route's `load()` renders the 404 page instead of the route.
+ */
+export function notFound(message: string = 'Not Found'): HttpError {
+  return new HttpError(404, message);
+}
+
+// --- Built-in anti-XSS helpers, see ./html ---
+export { escapeHtml, SafeHtml, raw, html } from './html';
+export { builtinFilters } from './filters';
+export { TemplateError } from './template';
+export { HeadManager } from './head';
+export { renderToString } from './jsx-runtime';
+export type { Component, JsxNode } from './jsx-runtime';
+export type { CookieOptions } from './cookies';
+export type { TemplateFilter } from './filters';
+ 
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { escapeHtml } from './html';
+
+/**
+ * Interactive islands: partials rendered on the server and hydrated in the browser by
+ * their own client module, `src/components/<name>.client.ts`.
+ *
+ *   {{> counter start=5 hydrate="visible" }}
+ *
+ * The partial's HTML is wrapped in a <zyte-island> root that carries the props as JSON.
+ * The client module's default export is called with that root and the props:
+ *
+ *   export default function hydrate(root: HTMLElement, props: { start: number }) { … }
+ */
+export const HYDRATION_STRATEGIES = ['eager', 'idle', 'visible'] as const;
+
+export type HydrationStrategy = typeof HYDRATION_STRATEGIES[number];
+
+export function isHydrationStrategy(value: unknown): value is HydrationStrategy {
+  return (HYDRATION_STRATEGIES as readonly unknown[]).includes(value);
+}
+
+// URL of a component's client module, as bundled by `zyte build` (ESM, one file per component)
+export function islandModuleUrl(name: string): string {
+  return `/client/components/${name}.client.js`;
+}
+
+// `display: contents` keeps the root out of the page layout
+export function wrapIsland(name: string, strategy: HydrationStrategy, props: Record<string, any>, html: string): string {
+  return `<zyte-island style="display:contents" data-component="${escapeHtml(name)}" data-hydrate="${strategy}"` +
+    ` data-src="${escapeHtml(islandModuleUrl(name))}" data-props="${escapeHtml(JSON.stringify(props))}">${html}</zyte-island>`;
+}
+
+/**
+ * Inline module script added to pages that contain islands. Module scripts run once the
+ * document is parsed, so every island is in the DOM, including ones streamed late.
+ * Client modules are only imported when their island's strategy allows:
+ * `eager` right away, `idle` when the browser is idle and `visible` when scrolled into view.
+ */
+export const ISLAND_LOADER = `
+const hydrate = async island => {
+  try {
+    const module = await import(island.dataset.src);
+    await (module.default ?? module.hydrate)(island, JSON.parse(island.dataset.props || '{}'));
+  } catch (error) {
+    console.error('Failed to hydrate island "' + island.dataset.component + '"', error);
+  }
+};
+const observer = 'IntersectionObserver' in window && new IntersectionObserver(entries => {
+  for (const entry of entries) {
+    if (!entry.isIntersecting) continue;
+    observer.unobserve(entry.target);
+    hydrate(entry.target.closest('zyte-island'));
+  }
+});
+// The display:contents root has no box of its own, so its first element is observed.
+// A root without elements is given a box instead.
+const observe = island => {
+  if (!island.firstElementChild) island.style.removeProperty('display');
+  observer.observe(island.firstElementChild || island);
+};
+const whenIdle = window.requestIdleCallback || (callback => setTimeout(callback, 1));
+for (const island of document.querySelectorAll('zyte-island:not([data-hydrated])')) {
+  island.setAttribute('data-hydrated', '');
+  const strategy = island.dataset.hydrate;
+  if (strategy === 'visible' && observer) observe(island);
+  else if (strategy === 'idle') whenIdle(() => hydrate(island));
+  else hydrate(island);
+}
+`;
@@ -0,0 +1,3 @@
+// Development builds compile JSX to jsxDEV(); its extra debugging arguments are not used
+export { jsx as jsxDEV, Fragment } from './jsx-runtime';
+export type { JSX } from './jsx-runtime';
@@ -0,0 +1,109 @@
+import { SafeHtml, escapeHtml } from './html';
+
+/**
+ * Server-side JSX: `.tsx` components render straight to HTML strings, with no virtual
+ * DOM and nothing sent to the browser. Enable it in the project's tsconfig.json:
+ *
+ *   "jsx": "react-jsx",
+ *   "jsxImportSource": "zyte"
+ *
+ * An element is SafeHtml, so templates output it as-is and html`` nests it. Text and
+ * attribute values are escaped. Function components may be async: an element with an
+ * async component below it is a Promise<SafeHtml>, which templates await.
+ */
+
+export type JsxNode = SafeHtml | string | number | bigint | boolean | null | undefined | JsxNode[] | Promise<JsxNode>;
+
+export type Component<P = {}> = (props: P & { children?: JsxNode }) => JsxNode;
+
+interface HtmlAttributes {
+  children?: JsxNode;
+  className?: string;
+  htmlFor?: string;
+  style?: string | Record<string, string | number | null | undefined>;
+  // Trusted markup used as the element's content instead of its children
+  dangerouslySetInnerHTML?: { __html: string };
+  [attribute: string]: any;
+}
+
+export namespace JSX {
+  export type Element = SafeHtml | Promise<SafeHtml>;
+  export type ElementType = string | ((props: any) => JsxNode);
+  export interface ElementChildrenAttribute {
+    children: {};
+  }
+  export interface IntrinsicElements {
+    [tag: string]: HtmlAttributes;
+  }
+}
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// React prop names that differ from the HTML attribute
+const ATTRIBUTE_NAMES: Record<string, string> = { className: 'class', htmlFor: 'for' };
+
+export function jsx(type: JSX.ElementType, props: Record<string, any>): JSX.Element {
+  if (typeof type === 'function') return renderNode(type(props));
+
+  const { children, dangerouslySetInnerHTML, ...attributes } = props;
+  const open = `<${type}${renderAttributes(attributes)}>`;
+  if (VOID_ELEMENTS.has(type)) return new SafeHtml(open);
+  const content = dangerouslySetInnerHTML ? new SafeHtml(String(dangerouslySetInnerHTML.__html ?? '')) : renderNode(children);
+  return map(content, html => new SafeHtml(`${open}${html}</${type}>`));
+}
+
+// The compiler calls jsxs() for elements with static child arrays; they render the same way
+export const jsxs = jsx;
+
+export function Fragment(props: { children?: JsxNode }): JSX.Element {
+  return renderNode(props.children);
+}
+
+/** Renders an element, or any JSX child value, to an HTML string */
+export async function renderToString(node: JsxNode): Promise<string> {
+  return String(await renderNode(node));
+}
+
+// Stays synchronous until a promise is found, so pages without async components need no awaits
+function renderNode(node: JsxNode): SafeHtml | Promise<SafeHtml> {
+  if (node instanceof Promise) return node.then(renderNode);
+  if (SafeHtml.isSafeHtml(node)) return node;
+  if (Array.isArray(node)) {
+    const rendered = node.map(renderNode);
+    const join = (parts: SafeHtml[]) => new SafeHtml(parts.join(''));
+    return rendered.some(part => part instanceof Promise) ? Promise.all(rendered).then(join) : join(rendered as SafeHtml[]);
+  }
+  if (node == null || typeof node === 'boolean') return new SafeHtml('');
+  return new SafeHtml(escapeHtml(node));
+}
+
+function map(value: SafeHtml | Promise<SafeHtml>, fn: (html: SafeHtml) => SafeHtml): SafeHtml | Promise<SafeHtml> {
+  return value instanceof Promise ? value.then(fn) : fn(value);
+}
+
+const ATTRIBUTE_NAME = /^[^\s"'<>\/=]+$/;
+
+// `true` renders the bare attribute; false, null and event handlers are left out
+function renderAttributes(attributes: Record<string, any>): string {
+  let result = '';
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value == null || value === false || typeof value === 'function') continue;
+    if (!ATTRIBUTE_NAME.test(name)) throw new Error(`Invalid attribute name "${name}"`);
+    const attribute = ATTRIBUTE_NAMES[name] ?? name;
+    if (value === true) {
+      result += ` ${attribute}`;
+    } else {
+      const text = name === 'style' && typeof value === 'object' ? renderStyle(value) : String(value);
+      result += ` ${attribute}="${escapeHtml(text)}"`;
+    }
+  }
+  return result;
+}
+
+// { fontSize: 12, '--accent': 'red' } -> "font-size:12;--accent:red"
+function renderStyle(style: Record<string, string | number | null | undefined>): string {
+  return Object.entries(style)
+    .filter(([, value]) => value != null && value !== '')
+    .map(([property, value]) => `${property.startsWith('--') ? property : property.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}:${value}`)
+    .join(';');
+}
@@ -0,0 +1,301 @@
+import { escapeHtml } from './html';
+
+/**
+ * Markdown pages: `src/routes/**\/*.md` files rendered to HTML, with YAML-style
+ * frontmatter exposed to layouts as `{{ page.* }}`.
+ *
+ * Supported: ATX headings (with `id` anchors), paragraphs, fenced code blocks, lists,
+ * blockquotes, horizontal rules, links, images, `code`, **strong**, *emphasis* and
+ * ~~strikethrough~~. Raw HTML is escaped like any other text.
+ */
+export interface MarkdownPage {
+  page: Record<string, any>;
+  html: string;
+}
+
+export function parseMarkdownPage(source: string, fileName: string): MarkdownPage {
+  const lines = source.replace(/\r\n?/g, '\n').replace(/\0/g, '�').split('\n');
+  let page: Record<string, any> = {};
+  let bodyStart = 0;
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end === -1) throw new Error(`${fileName}:1: Frontmatter is not closed with ---`);
+    page = parseFrontmatter(lines.slice(1, end), fileName);
+    bodyStart = end + 1;
+  }
+  return { page, html: renderMarkdown(lines.slice(bodyStart).join('\n')) };
+}
+
+/**
+ * A subset of YAML: `key: value` pairs with strings, numbers, booleans, null and
+ * `[a, b]` lists, or lists written as indented `- item` lines below the key.
+ */
+function parseFrontmatter(lines: string[], fileName: string): Record<string, any> {
+  const data: Record<string, any> = {};
+  let listKey: string | null = null;
+  lines.forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    const item = line.match(/^\s+-\s+(.*)$/);
+    if (item && listKey) {
+      data[listKey] = [...(Array.isArray(data[listKey]) ? data[listKey] : []), parseScalar(item[1].trim())];
+      return;
+    }
+    const pair = line.match(/^([\w-]+)\s*:(?:\s+(.*))?$/);
+    if (!pair) {
+      throw new Error(`${fileName}:${index + 2}: Invalid frontmatter line "${line.trim()}", expected key: value`);
+    }
+    const value = pair[2]?.trim() ?? '';
+    // A key without a value is an empty string unless list items follow
+    listKey = value === '' ? pair[1] : null;
+    data[pair[1]] = value === '' ? '' : parseValue(value);
+  });
+  return data;
+}
+
+function parseValue(value: string): any {
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const inner = value.slice(1, -1).trim();
+    // Spaces after a comma are skipped first, so a quoted item is matched whole
+    return inner ? (inner.match(/\s*(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+)/g) ?? []).map(item => parseScalar(item.trim())) : [];
+  }
+  return parseScalar(value);
+}
+
+function parseScalar(value: string): any {
+  if (/^"(?:[^"\\]|\\.)*"$/.test(value)) return JSON.parse(value);
+  if (/^'(?:[^']|'')*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+  // A trailing comment, as in `order: 2 # first`
+  value = value.replace(/\s+#.*$/, '');
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value === 'null' || value === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+export function renderMarkdown(source: string): string {
+  return renderBlocks(source.split('\n'), { ids: new Map() }, false);
+}
+
+interface RenderState {
+  // Heading ids used so far, so repeated headings get -1, -2, ... suffixes
+  ids: Map<string, number>;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/;
+const QUOTE = /^ {0,3}>\s?/;
+
+// Tight list items (no blank lines between them) have their paragraphs rendered without <p>
+function renderBlocks(lines: string[], state: RenderState, tight: boolean): string {
+  const blocks: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i++]);
+      }
+      i++; // Closing fence; an unclosed block runs to the end of the document
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      blocks.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}${code.length ? '\n' : ''}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const depth = heading[1].length;
+      const text = heading[2] ?? '';
+      const id = uniqueId(slugify(text), state);
+      blocks.push(`<h${depth} id="${id}"><a href="#${id}">${renderInline(text)}</a></h${depth}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && QUOTE.test(lines[i])) {
+        quoted.push(lines[i++].replace(QUOTE, ''));
+      }
+      blocks.push(`<blockquote>\n${renderBlocks(quoted, state, false)}\n</blockquote>`);
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const start = ordered ? parseInt(item[2], 10) : 1;
+      const items: string[][] = [];
+      let loose = false;
+      while (i < lines.length) {
+        const marker = lines[i].match(LIST_ITEM);
+        if (!marker || /\d/.test(marker[2]) !== ordered) break;
+        const indent = marker[0].length;
+        const content = [lines[i].slice(indent)];
+        i++;
+        // Continuation lines are indented past the marker; a blank line followed by one keeps the item open
+        while (i < lines.length) {
+          if (!lines[i].trim()) {
+            const next = lines.slice(i).find(candidate => candidate.trim());
+            if (next === undefined || !/^\s/.test(next)) break;
+            loose = true;
+            content.push('');
+            i++;
+          } else if (/^\s/.test(lines[i]) || (!LIST_ITEM.test(lines[i]) && !startsBlock(lines[i]) && content[content.length - 1] !== '')) {
+            content.push(lines[i].replace(new RegExp(`^ {0,${indent}}`), ''));
+            i++;
+          } else {
+            break;
+          }
+        }
+        items.push(content);
+        // A blank line between items makes the whole list loose
+        if (i < lines.length && !lines[i].trim()) {
+          const next = lines.slice(i).find(candidate => candidate.trim());
+          if (next !== undefined && LIST_ITEM.test(next) && /\d/.test(next.match(LIST_ITEM)![2]) === ordered) {
+            loose = true;
+            while (!lines[i].trim()) i++;
+          }
+        }
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      const startAttribute = ordered && start !== 1 ? ` start="${start}"` : '';
+      const rendered = items.map(content => `<li>${renderBlocks(content, state, !loose)}</li>`);
+      blocks.push(`<${tag}${startAttribute}>\n${rendered.join('\n')}\n</${tag}>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    const text = renderInline(paragraph.join('\n'));
+    blocks.push(tight ? text : `<p>${text}</p>`);
+  }
+  return blocks.join('\n');
+}
+
+// Lines that end a paragraph without a blank line before them
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+// "Getting Started with `zyte`!" -> "getting-started-with-zyte"
+function slugify(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*_~]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s+/g, '-') || 'section';
+}
+
+function uniqueId(slug: string, state: RenderState): string {
+  const count = state.ids.get(slug) ?? 0;
+  state.ids.set(slug, count + 1);
+  return escapeHtml(count === 0 ? slug : `${slug}-${count}`);
+}
+
+const PLACEHOLDER = /\0(\d+)\0/g;
+
+function renderInline(text: string): string {
+  const held: string[] = [];
+  let html = renderSpans(text, held);
+  // Restored until none are left: a held link label may itself contain a held code span
+  while (html.includes('\0')) {
+    html = html.replace(PLACEHOLDER, (_, index) => held[Number(index)]);
+  }
+  return html;
+}
+
+/**
+ * Code spans, escapes and links are set aside as placeholders first, so the emphasis
+ * rules below only ever see escaped text.
+ */
+function renderSpans(text: string, held: string[]): string {
+  const hold = (html: string) => `\0${held.push(html) - 1}\0`;
+
+  const result = replaceLinks(
+    text
+      .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _ticks, code) => hold(`<code>${escapeHtml(code.trim() || code)}</code>`))
+      .replace(/\\([\\`*_{}\[\]()#+\-.!~>|])/g, (_, char) => hold(escapeHtml(char)))
+      .replace(/<((?:https?:\/\/|mailto:)[^\s<>]+)>/g, (_, url) => hold(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`)),
+    (image, label, url, title) => {
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+      if (image) return hold(`<img src="${escapeHtml(safeUrl(url))}" alt="${escapeHtml(label)}"${titleAttribute}>`);
+      return hold(`<a href="${escapeHtml(safeUrl(url))}"${titleAttribute}>${renderSpans(label, held)}</a>`);
+    }
+  );
+
+  return escapeHtml(result)
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+}
+
+type LinkRenderer = (image: string, label: string, url: string, title: string | undefined) => string;
+
+// Replaces `[label](url "title")` and `![alt](src)`. A regex cannot match the balanced
+// parentheses a URL may contain (`/wiki/Foo_(bar)`), so the destination is scanned.
+function replaceLinks(text: string, render: LinkRenderer): string {
+  const opening = /(!?)\[([^\]]*)\]\(/g;
+  let result = '';
+  let last = 0;
+  for (let match = opening.exec(text); match; match = opening.exec(text)) {
+    const destination = readLinkDestination(text, opening.lastIndex);
+    if (!destination) continue;
+    result += text.slice(last, match.index) + render(match[1], match[2], destination.url, destination.title);
+    last = opening.lastIndex = destination.end;
+  }
+  return result + text.slice(last);
+}
+
+// Reads `url "title")` from after a link's `(`: a `<url>`, or a URL whose parentheses are balanced
+function readLinkDestination(text: string, start: number): { url: string; title?: string; end: number } | null {
+  let index = start + /^\s*/.exec(text.slice(start))![0].length;
+  let url: string;
+  if (text[index] === '<') {
+    const close = text.slice(index + 1).search(/[\n<>]/);
+    if (close === -1 || text[index + 1 + close] !== '>') return null;
+    url = text.slice(index + 1, index + 1 + close);
+    index += close + 2;
+  } else {
+    const begin = index;
+    let depth = 0;
+    for (; index < text.length && !/\s/.test(text[index]); index++) {
+      if (text[index] === '(') {
+        depth++;
+      } else if (text[index] === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+    }
+    if (depth > 0) return null;
+    url = text.slice(begin, index);
+  }
+  const tail = /^(?:\s+"([^"]*)")?\s*\)/.exec(text.slice(index));
+  return tail ? { url, title: tail[1], end: index + tail[0].length } : null;
+}
+
+// Script URLs are dropped; relative, http(s), mailto and other plain links are kept
+function safeUrl(url: string): string {
+  return /^\s*(javascript|vbscript|data):/i.test(url) ? '#' : url;
+}
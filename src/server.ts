@@ -1,6 +1,7 @@
-import { createSSR, SSRContext } from './index';
+import { createContext, createSSR, RouteConfig, SSRContext } from './index';
 import { extname, join } from 'path';
 import { existsSync, readFileSync, statSync } from 'fs';
+import { constants as zlibConstants, createGzip } from 'zlib';
 
 const ssrCache = new Map<string, { content: string; timestamp: number }>();
 
@@ -9,6 +10,7 @@ export interface ServerOptions {
   onStart?: (server: { port: number; host: string; url: string }) => void | Promise<void>;
   cacheMaxAge?: number; // in milliseconds
   cacheEnabled?: boolean;
+  streaming?: boolean; // Send pages with renderStream as they render (default: false)
   sitemap?: {
     enabled?: boolean; // Default: true
     baseUrl?: string; // Auto-detected if not provided
@@ -34,9 +36,94 @@ export interface ServerOptions {
     sitemap?: boolean; // Include sitemap reference (default: true)
     customRules?: string[]; // Custom robots.txt rules
   };
+  redirects?: RedirectRule[]; // Checked in order, before static files and rendering
+  rewrites?: RewriteRule[]; // Checked in order after redirects; the URL in the browser is unchanged
 }
 
-function injectClientScript(path: string, html: string): string {
+export interface RedirectRule {
+  source: string; // Path pattern, e.g. '/blog/:slug' or '/docs/:path*'
+  destination: string; // Path or absolute URL; may reuse parameters, e.g. '/posts/:slug'
+  permanent?: boolean; // 308 when true, 307 otherwise
+  statusCode?: 301 | 302 | 303 | 307 | 308; // Overrides `permanent`
+  preserveQuery?: boolean; // Carry the original query string over (default: true)
+}
+
+export interface RewriteRule {
+  source: string;
+  destination: string; // Internal path that is served instead
+  preserveQuery?: boolean; // Default: true
+}
+
+const patternCache = new Map<string, { regex: RegExp; names: string[] }>();
+
+// Compiles '/docs/:section/:path*' style patterns. ':name' matches one segment,
+// ':name*' zero or more segments and ':name+' one or more segments.
+function compilePathPattern(pattern: string): { regex: RegExp; names: string[] } {
+  let compiled = patternCache.get(pattern);
+  if (!compiled) {
+    const names: string[] = [];
+    let source = '';
+    for (const segment of pattern.split('/').filter(Boolean)) {
+      const param = segment.match(/^:([A-Za-z_]\w*)([*+])?$/);
+      if (param) {
+        names.push(param[1]);
+        source += param[2] === '*' ? '(?:/(.*))?' : param[2] === '+' ? '/(.+)' : '/([^/]+)';
+      } else {
+        source += '/' + segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    compiled = { regex: new RegExp(`^${source || '/'}/?$`), names };
+    patternCache.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+export function matchPathPattern(pattern: string, path: string): Record<string, string> | null {
+  const { regex, names } = compilePathPattern(pattern);
+  const match = path.match(regex);
+  if (!match) return null;
+  const params: Record<string, string> = {};
+  names.forEach((name, i) => {
+    params[name] = match[i + 1] ?? '';
+  });
+  return params;
+}
+
+// Resolves a rule destination against the request URL, filling in matched parameters
+function buildDestination(rule: RedirectRule | RewriteRule, params: Record<string, string>, url: URL): URL {
+  const destination = rule.destination
+    .replace(/:([A-Za-z_]\w*)[*+]?/g, (token, name) => (name in params ? params[name] : token));
+  const target = new URL(destination, url);
+  if (rule.preserveQuery !== false) {
+    url.searchParams.forEach((value, key) => {
+      if (!target.searchParams.has(key)) target.searchParams.append(key, value);
+    });
+  }
+  return target;
+}
+
+export function resolveRedirect(rules: RedirectRule[], url: URL): Response | null {
+  for (const rule of rules) {
+    const params = matchPathPattern(rule.source, url.pathname);
+    if (!params) continue;
+    const target = buildDestination(rule, params, url);
+    const status = rule.statusCode ?? (rule.permanent ? 308 : 307);
+    // Keep same-origin redirects relative so they work behind proxies
+    const location = target.origin === url.origin ? target.pathname + target.search : target.toString();
+    return new Response(null, { status, headers: { Location: location } });
+  }
+  return null;
+}
+
+export function resolveRewrite(rules: RewriteRule[], url: URL): URL | null {
+  for (const rule of rules) {
+    const params = matchPathPattern(rule.source, url.pathname);
+    if (params) return buildDestination(rule, params, url);
+  }
+  return null;
+}
+
+function injectClientScript(path: string, html: string, route?: RouteConfig | null): string {
   let clientScriptPath = null;
   const routeParts = path.split('/').filter(Boolean);
   if (routeParts.length === 0 || path === '/app' || path === '/app/') {
@@ -44,15 +131,9 @@ function injectClientScript(path: string, html: string): string {
     if (existsSync(join(process.cwd(), 'dist', 'client', 'app', 'app.client.js'))) {
       clientScriptPath = '/client/app/app.client.js';
     }
-  } else {
-    // For /routes/xyz or /xyz, look for /client/routes/xyz/xyz.client.js
-    // Support nested routes: /foo/bar -> /client/routes/foo/bar/bar.client.js
-    let routePath = routeParts.join('/');
-    let routeName = routeParts[routeParts.length - 1];
-    let candidate = join(process.cwd(), 'dist', 'client', 'routes', ...routeParts, `${routeName}.client.js`);
-    if (existsSync(candidate)) {
-      clientScriptPath = `/client/routes/${routePath}/${routeName}.client.js`;
-    }
+  } else if (route?.client) {
+    // Recorded during route discovery (or in the build manifest), e.g. /client/routes/foo/foo.client.js
+    clientScriptPath = route.client;
   }
   if (clientScriptPath) {
     return html.replace('</body>', `<script src="${clientScriptPath}"></script>\n</body>`);
@@ -66,6 +147,123 @@ function injectLazyLoading(html: string): string {
   return html.replace(/<img(?![^>]*loading=)/gi, '<img loading="lazy" ');
 }
 
+/**
+ * Whether a request may be answered from, and its page stored in, the page cache:
+ * GET requests without query parameters. Requests with cookies are never cached,
+ * because pages can render `{{ cookies.* }}`; cached pages are rendered without any.
+ */
+export function isCacheableRequest(request: Request): boolean {
+  return request.method === 'GET' && new URL(request.url).search === '' && !request.headers.has('cookie');
+}
+
+/**
+ * Decodes a streamed page and applies the post-processing of buffered pages to it.
+ * A tag split across chunks is held back until it is complete, so `<img>` and `</body>`
+ * are always matched whole. `onComplete` receives the processed page, and is only
+ * called when the whole page rendered.
+ */
+export function createPageTransform(path: string, route: RouteConfig | null | undefined, onComplete?: (html: string) => void): TransformStream<Uint8Array, string> {
+  const decoder = new TextDecoder();
+  let pending = '';
+  let content = '';
+  const emit = (text: string, controller: TransformStreamDefaultController<string>) => {
+    if (!text) return;
+    text = injectLazyLoading(injectClientScript(path, text, route));
+    if (onComplete) content += text;
+    controller.enqueue(text);
+  };
+  return new TransformStream({
+    transform(chunk, controller) {
+      const text = pending + decoder.decode(chunk, { stream: true });
+      const tagStart = text.lastIndexOf('<');
+      const end = tagStart !== -1 && text.indexOf('>', tagStart) === -1 ? tagStart : text.length;
+      pending = text.slice(end);
+      emit(text.slice(0, end), controller);
+    },
+    flush(controller) {
+      emit(pending + decoder.decode(), controller);
+      onComplete?.(content);
+    }
+  });
+}
+
+// CompressionStream holds output back until it has a full block. Flushing after every
+// chunk instead sends each streamed part of a page as soon as it is rendered.
+function createGzipStream(): TransformStream<Uint8Array, Uint8Array> {
+  const gzip = createGzip();
+  let output: Uint8Array[] = [];
+  gzip.on('data', (data: Uint8Array) => output.push(data));
+  const drain = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    for (const data of output) controller.enqueue(new Uint8Array(data));
+    output = [];
+  };
+  return new TransformStream({
+    transform(chunk, controller) {
+      return new Promise((resolve, reject) => {
+        gzip.write(chunk, error => {
+          if (error) return reject(error);
+          gzip.flush(zlibConstants.Z_SYNC_FLUSH, () => {
+            drain(controller);
+            resolve();
+          });
+        });
+      });
+    },
+    flush(controller) {
+      return new Promise((resolve, reject) => {
+        gzip.once('error', reject);
+        gzip.once('end', () => {
+          drain(controller);
+          resolve();
+        });
+        gzip.end();
+      });
+    }
+  });
+}
+
+// Gzips the body as it is produced, so streamed pages reach the browser chunk by chunk
+export function compressResponse(request: Request, response: Response): Response {
+  if (response.headers.has('Content-Encoding') || !response.body) {
+    return response;
+  }
+  const acceptEncoding = request.headers.get('accept-encoding') || '';
+  if (!acceptEncoding.includes('gzip')) {
+    return response;
+  }
+  const headers = new Headers(response.headers);
+  headers.set('Content-Encoding', 'gzip');
+  headers.delete('Content-Length');
+  return new Response(response.body.pipeThrough(createGzipStream()), {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
+function hasContextHeaders(context: SSRContext): boolean {
+  return context.responseHeaders !== undefined && !context.responseHeaders.keys().next().done;
+}
+
+// Adds the headers and cookies set with context.setHeader()/setCookie() to a response
+export function withContextHeaders(response: Response, context: SSRContext): Response {
+  if (!hasContextHeaders(context)) {
+    return response;
+  }
+  const headers = new Headers(response.headers);
+  for (const [name, value] of context.responseHeaders!) {
+    if (name !== 'set-cookie') headers.set(name, value);
+  }
+  for (const cookie of context.responseHeaders!.getSetCookie()) {
+    headers.append('Set-Cookie', cookie);
+  }
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
 export async function startServer(options: ServerOptions = {}) {
   // Try to load server configuration from project root or src directory
   let projectConfig: ServerOptions = {};
@@ -95,23 +293,35 @@ export async function startServer(options: ServerOptions = {}) {
   };
 
   const ssr = createSSR({ baseDir: process.cwd() });
+  for (const diagnostic of ssr.getRouteDiagnostics()) {
+    const log = diagnostic.level === 'error' ? console.error : console.warn;
+    log(`[routes] ${diagnostic.message} (${diagnostic.files.join(', ')})`);
+  }
   const port = finalOptions.port ?? (process.env.PORT ? parseInt(process.env.PORT) : 3000);
 
   // --- Cache Warming ---
   const CACHE_ENABLED_FOR_WARMING = finalOptions.cacheEnabled ?? true;
   if (CACHE_ENABLED_FOR_WARMING) {
     console.log('🔥 Warming up the cache...');
-    const routesToCache = ssr.getRoutesMap();
+    const routesToCache = new Map(ssr.getRoutesMap());
     // Add the root route if it's not already in the list from discovery
     if (!routesToCache.has('/')) {
       routesToCache.set('/', { path: '/', component: 'src/app/app.ts' });
     }
 
-    for (const path of routesToCache.keys()) {
+    for (const [routePath, route] of routesToCache) {
+      // Dynamic routes depend on the requested URL and cannot be pre-rendered
+      if (route.params || (routePath !== '/' && !route.template)) continue;
+      // Cache entries are keyed by URL pathname, as looked up by the handler
+      const path = routePath.startsWith('/') ? routePath : `/${routePath}`;
+      // Pages behind middleware are rendered per request, see respond()
+      if (ssr.hasMiddleware(path)) continue;
       try {
         const context: SSRContext = { params: {}, query: {}, headers: {} };
         let html = await ssr.render(path, context);
-        html = injectClientScript(path, html);
+        // e.g. a route whose load() reported notFound()
+        if ((context.status ?? 200) !== 200) continue;
+        html = injectClientScript(path, html, route);
         html = injectLazyLoading(html);
         ssrCache.set(path, { content: html, timestamp: Date.now() });
         console.log(`  - Cached: ${path}`);
@@ -124,8 +334,8 @@ export async function startServer(options: ServerOptions = {}) {
   }
 
   async function handler(request: Request): Promise<Response> {
-    const url = new URL(request.url);
-    const path = url.pathname;
+    let url = new URL(request.url);
+    let path = url.pathname;
 
     // Magic keep-alive route for free cloud services
     if (path === '/__zyte_keepalive' || path === '/__zyte_keepalive/') {
@@ -188,6 +398,8 @@ export async function startServer(options: ServerOptions = {}) {
       // Add all discovered routes (excluding specified paths)
       for (const [routePath, routeConfig] of routes) {
         if (excludePaths.includes(routePath)) continue;
+        // Dynamic routes have no single URL to list, and API routes have no page
+        if (routeConfig.params || !routeConfig.template) continue;
         
         sitemap += `
   <url>
@@ -274,17 +486,29 @@ export async function startServer(options: ServerOptions = {}) {
       });
     }
 
-    // Serve static files from dist/client, src/app, and src/routes
-    if (!/\.(ts|html)$/.test(path)) {
+    // --- Redirects & Rewrites ---
+    const redirectResponse = resolveRedirect(finalOptions.redirects || [], url);
+    if (redirectResponse) {
+      return redirectResponse;
+    }
+    const rewrittenUrl = resolveRewrite(finalOptions.rewrites || [], url);
+    if (rewrittenUrl) {
+      url = rewrittenUrl;
+      path = url.pathname;
+      request = new Request(url, request);
+    }
+
+    // Serve static files from dist/client, src/app, src/routes, src/components and src/layouts
+    if (!/\.(tsx?|html|md)$/.test(path)) {
       // Try dist/client first
       let filePath = join(process.cwd(), 'dist', path);
       if (!existsSync(filePath) || !statSync(filePath).isFile()) {
         // Try src/app
         filePath = join(process.cwd(), 'src', 'app', path.split('/').pop()!);
         if (!existsSync(filePath) || !statSync(filePath).isFile()) {
-          // Try src/routes/<...> for /routes/...
+          // Try src/routes/<...> for /routes/..., and likewise for /components/... and /layouts/...
           const parts = path.split('/');
-          if (parts[1] === 'routes' && parts.length > 2) {
+          if ((parts[1] === 'routes' || parts[1] === 'components' || parts[1] === 'layouts') && parts.length > 2) {
             filePath = join(process.cwd(), 'src', ...parts.slice(1));
           }
         }
@@ -320,77 +544,126 @@ export async function startServer(options: ServerOptions = {}) {
       }
     }
 
+    // Headers and cookies set through the context apply to whatever response the request gets
+    const context = createContext(request);
+    return withContextHeaders(await respond(request, url, path, context), context);
+  }
+
+  async function respond(request: Request, url: URL, path: string, context: SSRContext): Promise<Response> {
+    // --- Middleware ---
+    // Runs before the cache so checks such as authentication also guard cached pages
+    try {
+      const middlewareResponse = await ssr.runMiddleware(request, context);
+      if (middlewareResponse) {
+        return middlewareResponse;
+      }
+    } catch (error) {
+      console.error('Error running middleware:', error);
+      const html = await ssr.renderError(error, context);
+      return new Response(html, {
+        status: context.status ?? 500,
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+        },
+      });
+    }
+
     // --- Caching Layer ---
     const CACHE_ENABLED = finalOptions.cacheEnabled ?? true; // Default to true
-    if (CACHE_ENABLED) {
+    // Pages behind middleware may depend on the request through context.locals (e.g. the visitor's language)
+    const cacheable = CACHE_ENABLED && isCacheableRequest(request) && !ssr.hasMiddleware(path)
+      && Object.keys(context.locals ?? {}).length === 0;
+    if (cacheable) {
       const CACHE_MAX_AGE_MS = finalOptions.cacheMaxAge ?? 5 * 60000; // 5 minutes default
-      // Only cache GET requests with no query parameters.
-      if (request.method === 'GET' && url.search === '') {
-        const cached = ssrCache.get(path);
-        if (cached) {
-          const isStale = Date.now() - cached.timestamp > CACHE_MAX_AGE_MS;
-          if (!isStale) {
-            return new Response(cached.content, {
-              headers: { 'Content-Type': 'text/html; charset=utf-8' },
-            });
-          } else {
-            // Clean up stale entry
-            ssrCache.delete(path);
-          }
+      const cached = ssrCache.get(path);
+      if (cached) {
+        const isStale = Date.now() - cached.timestamp > CACHE_MAX_AGE_MS;
+        if (!isStale) {
+          return new Response(cached.content, {
+            headers: { 'Content-Type': 'text/html; charset=utf-8' },
+          });
+        } else {
+          // Clean up stale entry
+          ssrCache.delete(path);
         }
       }
     }
 
+    // API routes: modules exporting GET/POST/... handlers answer with their own Response
     try {
-      // Parse query parameters
-      const query: Record<string, string> = {};
-      url.searchParams.forEach((value, key) => {
-        query[key] = value;
+      const apiResponse = await ssr.handleApiRoute(request, context);
+      if (apiResponse) {
+        return apiResponse;
+      }
+    } catch (error) {
+      console.error('Error handling API route:', error);
+      return new Response(JSON.stringify({ error: 'Internal Server Error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
       });
+    }
+
+    try {
+      // Form submissions run the page's action before it is rendered again
+      if (request.method !== 'GET' && request.method !== 'HEAD') {
+        const actionResponse = await ssr.runAction(path, context);
+        if (actionResponse) {
+          return actionResponse;
+        }
+      }
 
-      // Create context
-      const context: SSRContext = {
-        params: {},
-        query,
-        headers: Object.fromEntries(request.headers.entries())
-      };
+      // Pages that set headers or cookies are specific to this request
+      const isCacheable = () => cacheable && !hasContextHeaders(context);
+      if (finalOptions.streaming) {
+        // The status is sent before the page is done, so it is the one set while routing
+        const body = await ssr.renderStream(path, context);
+        const status = context.status ?? 200;
+        const postProcess = createPageTransform(path, ssr.matchRoute(path)?.route, content => {
+          if (isCacheable() && status === 200) {
+            ssrCache.set(path, { content, timestamp: Date.now() });
+          }
+        });
+        const stream = body
+          .pipeThrough(postProcess)
+          .pipeThrough(new TextEncoderStream());
+        return new Response(stream, {
+          status,
+          headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+          },
+        });
+      }
 
       // Render the page
       let html = await ssr.render(path, context);
+      const status = context.status ?? 200;
 
-      // Determine possible client bundle path dynamically
-      html = injectClientScript(path, html);
+      // Attach the route's client bundle, if it has one
+      html = injectClientScript(path, html, ssr.matchRoute(path)?.route);
       html = injectLazyLoading(html);
 
       // --- Cache Population ---
-      if (CACHE_ENABLED) {
-        // If the request was cacheable, store the final HTML in the cache.
-        if (request.method === 'GET' && url.search === '') {
-          ssrCache.set(path, { content: html, timestamp: Date.now() });
-        }
+      // If the request was cacheable, store the final HTML in the cache.
+      if (isCacheable() && status === 200) {
+        ssrCache.set(path, { content: html, timestamp: Date.now() });
       }
 
       return new Response(html, {
+        status,
         headers: {
           'Content-Type': 'text/html; charset=utf-8',
         },
       });
     } catch (error) {
+      // A route's load() may throw redirect() to send the visitor elsewhere
+      if (error instanceof Response) {
+        return error;
+      }
       console.error('Error rendering page:', error);
-      return new Response(`
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <title>Error - Zyte SSR</title>
-        </head>
-        <body>
-          <h1>500 - Internal Server Error</h1>
-          <p>An error occurred while rendering the page.</p>
-          <pre>${error instanceof Error ? error.message : String(error)}</pre>
-        </body>
-        </html>
-      `, {
-        status: 500,
+      // Rendered from src/app/error.html when the project provides one
+      const html = await ssr.renderError(error, context);
+      return new Response(html, {
+        status: context.status ?? 500,
         headers: {
           'Content-Type': 'text/html; charset=utf-8',
         },
@@ -403,28 +676,7 @@ export async function startServer(options: ServerOptions = {}) {
   const server = Bun.serve({
     port,
     async fetch(request: Request) {
-      const response = await handler(request);
-
-      if (response.headers.has('Content-Encoding') || !response.body) {
-        return response;
-      }
-
-      const acceptEncoding = request.headers.get('accept-encoding') || '';
-      if (acceptEncoding.includes('gzip')) {
-        const body = await response.arrayBuffer();
-        if (body.byteLength === 0) {
-          return response;
-        }
-        const compressed = Bun.gzipSync(body);
-        const headers = new Headers(response.headers);
-        headers.set('Content-Encoding', 'gzip');
-        return new Response(compressed, {
-          status: response.status,
-          headers: headers
-        });
-      }
-
-      return response;
+      return compressResponse(request, await handler(request));
     },
     error(error: Error) {
       console.error('Server error:', error);
@@ -0,0 +1,161 @@
+import { findTagEnd, parseNamedArguments, Expression, ExpressionSyntaxError } from './expression';
+
+/**
+ * Template structure: text, `{{ expression }}` tags (`{{{ expression }}}` for
+ * unescaped output) and the block tags
+ *
+ *   {{#if cond}} … {{else if other}} … {{else}} … {{/if}}
+ *   {{#each items as item, index}} … {{else}} (empty list) … {{/each}}
+ *
+ * and partial tags, `{{> card title="Hi" }}`, which include `src/components/card.html`.
+ *
+ * Expressions are kept as source text and evaluated by ZyteSSR at render time.
+ */
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'expression'; source: string; tag: string; raw: boolean; start: number }
+  | { type: 'partial'; name: string; props: { key: string; value: Expression }[]; tag: string; start: number }
+  | IfBlock
+  | EachBlock;
+
+export interface IfBlock {
+  type: 'if';
+  branches: { test: string; body: TemplateNode[]; start: number }[];
+  alternate: TemplateNode[];
+  start: number;
+}
+
+export interface EachBlock {
+  type: 'each';
+  source: string; // Expression producing the list
+  item: string;
+  index?: string;
+  body: TemplateNode[];
+  empty: TemplateNode[]; // Rendered when the list is empty
+  start: number;
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+/**
+ * A template tag that failed to parse or render, located in its template file.
+ * Thrown in strict mode and collected by ZyteSSR.getTemplateErrors() otherwise.
+ */
+export class TemplateError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly file: string,
+    public readonly line: number,
+    public readonly column: number,
+    public readonly expression: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`${file}:${line}:${column}: ${reason} in {{ ${expression} }}`, options);
+    this.name = 'TemplateError';
+  }
+}
+
+// 1-based line and column of an offset in the template source
+export function getLineAndColumn(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+const PARTIAL_PATTERN = /^>\s*([\w-]+(?:\/[\w-]+)*)(?:\s+([\s\S]*))?$/;
+
+const EACH_PATTERN = /^#each\s+(.+?)\s+as\s+([A-Za-z_$][\w$]*)(?:\s*,\s*([A-Za-z_$][\w$]*))?$/;
+
+interface OpenBlock {
+  node: IfBlock | EachBlock;
+  hasElse: boolean;
+}
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  let current = root;
+  let lastIndex = 0;
+  let start: number;
+
+  while ((start = source.indexOf('{{', lastIndex)) !== -1) {
+    const raw = source.startsWith('{{{', start);
+    const braces = raw ? 3 : 2;
+    const end = findTagEnd(source, start + braces);
+    if (end === -1) break;
+    if (raw && source[end + 2] !== '}') throw new TemplateSyntaxError('Expected "}}}" to close "{{{"', start);
+    if (start > lastIndex) current.push({ type: 'text', value: source.slice(lastIndex, start) });
+    const tag = source.slice(start, end + braces);
+    const content = source.slice(start + braces, end).trim();
+    lastIndex = end + braces;
+    const block = stack[stack.length - 1];
+
+    if (raw) {
+      current.push({ type: 'expression', source: content, tag, raw, start });
+    } else if (content.startsWith('>')) {
+      const match = content.match(PARTIAL_PATTERN);
+      if (!match) throw new TemplateSyntaxError(`Invalid partial "${content}", expected {{> name key=value}}`, start);
+      const [, name, args = ''] = match;
+      let props: { key: string; value: Expression }[];
+      try {
+        props = parseNamedArguments(args);
+      } catch (error) {
+        if (!(error instanceof ExpressionSyntaxError)) throw error;
+        throw new TemplateSyntaxError(`Invalid props for partial "${name}": ${error.message}`, start);
+      }
+      current.push({ type: 'partial', name, props, tag, start });
+    } else if (content.startsWith('#if ')) {
+      const node: IfBlock = { type: 'if', branches: [{ test: content.slice(4).trim(), body: [], start }], alternate: [], start };
+      current.push(node);
+      stack.push({ node, hasElse: false });
+      current = node.branches[0].body;
+    } else if (content.startsWith('#each ')) {
+      const match = content.match(EACH_PATTERN);
+      if (!match) throw new TemplateSyntaxError(`Invalid block "${content}", expected {{#each list as item}}`, start);
+      const [, list, item, index] = match;
+      const node: EachBlock = { type: 'each', source: list, item, ...(index ? { index } : {}), body: [], empty: [], start };
+      current.push(node);
+      stack.push({ node, hasElse: false });
+      current = node.body;
+    } else if (content === 'else' || content.startsWith('else if ')) {
+      if (!block) throw new TemplateSyntaxError(`Unexpected {{${content}}} outside of a block`, start);
+      if (block.hasElse) throw new TemplateSyntaxError(`Unexpected {{${content}}} after {{else}}`, start);
+      if (content === 'else') {
+        block.hasElse = true;
+        current = block.node.type === 'if' ? block.node.alternate : block.node.empty;
+      } else {
+        if (block.node.type !== 'if') throw new TemplateSyntaxError('{{else if}} is only allowed in {{#if}} blocks', start);
+        const branch = { test: content.slice(8).trim(), body: [], start };
+        block.node.branches.push(branch);
+        current = branch.body;
+      }
+    } else if (content === '/if' || content === '/each') {
+      if (!block || `/${block.node.type}` !== content) {
+        throw new TemplateSyntaxError(`Unexpected {{${content}}}`, start);
+      }
+      stack.pop();
+      const parent = stack[stack.length - 1];
+      current = parent ? currentBody(parent) : root;
+    } else {
+      current.push({ type: 'expression', source: content, tag, raw, start });
+    }
+  }
+
+  if (stack.length > 0) {
+    const { node } = stack[stack.length - 1];
+    throw new TemplateSyntaxError(`Unclosed {{#${node.type}}} block`, node.start);
+  }
+  if (lastIndex < source.length) current.push({ type: 'text', value: source.slice(lastIndex) });
+  return root;
+}
+
+// The body new nodes go into once a nested block closes
+function currentBody({ node, hasElse }: OpenBlock): TemplateNode[] {
+  if (node.type === 'each') return hasElse ? node.empty : node.body;
+  return hasElse ? node.alternate : node.branches[node.branches.length - 1].body;
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, afterAll } from 'bun:test';
-import { existsSync, rmSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { execSync } from 'child_process';
 
@@ -112,6 +112,23 @@ describe('Zyte CLI', () => {
     expect(existsSync(join(EXAMPLE_DIR, 'dist', 'server.js'))).toBe(true);
   });
 
+  it('bundles island client modules as ES modules', () => {
+    if (!existsSync(EXAMPLE_DIR)) {
+      execSync(`bun ${CLI} new zyte-example`, { cwd: TESTS_DIR });
+    }
+    mkdirSync(join(EXAMPLE_DIR, 'src', 'components'), { recursive: true });
+    writeFileSync(join(EXAMPLE_DIR, 'src', 'components', 'counter.client.ts'), `export default function hydrate(root: HTMLElement) { root.dataset.ready = 'yes'; }`);
+    writeFileSync(join(EXAMPLE_DIR, 'src', 'components', 'badge.client.js'), `export default function hydrate(root) { root.dataset.ready = 'yes'; }`);
+    execSync(`bun ${CLI} build`, { cwd: EXAMPLE_DIR });
+    const island = readFileSync(join(EXAMPLE_DIR, 'dist', 'client', 'components', 'counter.client.js'), 'utf-8');
+    expect(island).toMatch(/export\s*\{/);
+    const jsIsland = readFileSync(join(EXAMPLE_DIR, 'dist', 'client', 'components', 'badge.client.js'), 'utf-8');
+    expect(jsIsland).toMatch(/export\s*\{/);
+    // Route scripts stay classic scripts
+    const appScript = readFileSync(join(EXAMPLE_DIR, 'dist', 'client', 'app', 'app.client.js'), 'utf-8');
+    expect(appScript).not.toMatch(/export\s*\{/);
+  });
+
   it('allows route name with only dashes', () => {
     if (!existsSync(EXAMPLE_DIR)) {
       execSync(`bun ${CLI} new zyte-example`, { cwd: TESTS_DIR });
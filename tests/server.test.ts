@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { compressResponse, createPageTransform, isCacheableRequest, matchPathPattern, resolveRedirect, resolveRewrite, withContextHeaders } from '../src/server';
+import { createContext, redirect } from '../src/index';
+
+describe('Redirects and rewrites', () => {
+  it('matches path patterns with parameters', () => {
+    expect(matchPathPattern('/blog/:slug', '/blog/hello')).toEqual({ slug: 'hello' });
+    expect(matchPathPattern('/blog/:slug', '/blog/hello/')).toEqual({ slug: 'hello' });
+    expect(matchPathPattern('/blog/:slug', '/blog/a/b')).toBe(null);
+    expect(matchPathPattern('/docs/:path*', '/docs')).toEqual({ path: '' });
+    expect(matchPathPattern('/docs/:path*', '/docs/a/b')).toEqual({ path: 'a/b' });
+    expect(matchPathPattern('/docs/:path+', '/docs')).toBe(null);
+    expect(matchPathPattern('/old.html', '/oldxhtml')).toBe(null);
+  });
+
+  it('redirects with permanent and temporary status codes', () => {
+    const rules = [
+      { source: '/blog/:slug', destination: '/posts/:slug', permanent: true },
+      { source: '/promo', destination: 'https://example.com/sale' },
+      { source: '/login', destination: '/account/login', statusCode: 302 as const },
+    ];
+    const permanent = resolveRedirect(rules, new URL('http://localhost/blog/hello?ref=tw'));
+    expect(permanent?.status).toBe(308);
+    expect(permanent?.headers.get('Location')).toBe('/posts/hello?ref=tw');
+
+    const external = resolveRedirect(rules, new URL('http://localhost/promo'));
+    expect(external?.status).toBe(307);
+    expect(external?.headers.get('Location')).toBe('https://example.com/sale');
+
+    expect(resolveRedirect(rules, new URL('http://localhost/login'))?.status).toBe(302);
+    expect(resolveRedirect(rules, new URL('http://localhost/about'))).toBe(null);
+  });
+
+  it('can drop the original query string', () => {
+    const rules = [{ source: '/search', destination: '/find?src=legacy', preserveQuery: false }];
+    const response = resolveRedirect(rules, new URL('http://localhost/search?q=bun'));
+    expect(response?.headers.get('Location')).toBe('/find?src=legacy');
+  });
+
+  it('rewrites to an internal path', () => {
+    const rules = [{ source: '/u/:id', destination: '/users/:id?tab=profile' }];
+    const rewritten = resolveRewrite(rules, new URL('http://localhost/u/42?lang=en'));
+    expect(rewritten?.pathname).toBe('/users/42');
+    expect(rewritten?.searchParams.get('tab')).toBe('profile');
+    expect(rewritten?.searchParams.get('lang')).toBe('en');
+    expect(resolveRewrite(rules, new URL('http://localhost/users/42'))).toBe(null);
+  });
+});
+
+describe('Compression', () => {
+  it('gzips streamed bodies when the client accepts it', async () => {
+    const request = (encoding: string) => new Request('http://localhost/', { headers: { 'accept-encoding': encoding } });
+    const page = () => new Response(new Blob(['<html>', '<body>streamed</body></html>']).stream(), {
+      status: 201,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    });
+
+    const compressed = compressResponse(request('gzip, br'), page());
+    expect(compressed.status).toBe(201);
+    expect(compressed.headers.get('Content-Encoding')).toBe('gzip');
+    expect(compressed.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    const body = new Uint8Array(await compressed.arrayBuffer());
+    expect(new TextDecoder().decode(Bun.gunzipSync(body))).toBe('<html><body>streamed</body></html>');
+
+    expect(compressResponse(request('identity'), page()).headers.has('Content-Encoding')).toBe(false);
+    const redirect = new Response(null, { status: 302, headers: { Location: '/' } });
+    expect(compressResponse(request('gzip'), redirect)).toBe(redirect);
+  });
+});
+
+describe('Page cache', () => {
+  it('only caches GET requests without query parameters or cookies', () => {
+    expect(isCacheableRequest(new Request('http://localhost/foo'))).toBe(true);
+    expect(isCacheableRequest(new Request('http://localhost/foo', { headers: { cookie: 'user=alice' } }))).toBe(false);
+    expect(isCacheableRequest(new Request('http://localhost/foo?page=2'))).toBe(false);
+    expect(isCacheableRequest(new Request('http://localhost/foo', { method: 'POST' }))).toBe(false);
+  });
+
+  it('renders pages for visitors with cookies instead of serving the warmed cache', async () => {
+    await withProjectServer({ 'src/app/app.html': `<p>hello {{ cookies.user }}</p>` }, async get => {
+      expect(await get()).toContain('<p>hello </p>');
+      expect(await get({ cookie: 'user=alice' })).toContain('<p>hello alice</p>');
+    });
+  });
+
+  it('renders pages behind middleware for each request', async () => {
+    await withProjectServer({
+      'src/middleware.ts': `export default (request, context) => { context.locals.lang = request.headers.get('accept-language') ?? ''; };`,
+      'src/app/app.html': `<p>lang={{ locals.lang }}</p>`
+    }, async get => {
+      expect(await get({ 'accept-language': 'fr' })).toContain('<p>lang=fr</p>');
+      expect(await get({ 'accept-language': 'en' })).toContain('<p>lang=en</p>');
+    });
+  });
+});
+
+// Runs startServer() for a project made of `files` in a child process, with the page cache enabled
+async function withProjectServer(files: Record<string, string>, run: (get: (headers?: Record<string, string>) => Promise<string>) => Promise<void>) {
+  const projectDir = join(process.cwd(), 'tests', 'tmp-server');
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(projectDir, file)), { recursive: true });
+    writeFileSync(join(projectDir, file), content);
+  }
+  const port = 40000 + Math.floor(Math.random() * 10000);
+  const server = Bun.spawn(['bun', '-e', `import { startServer } from '${join(process.cwd(), 'src', 'server')}'; startServer({ port: ${port} });`], {
+    cwd: projectDir,
+    stdout: 'ignore',
+    stderr: 'ignore'
+  });
+  try {
+    await run(async (headers = {}) => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await (await fetch(`http://localhost:${port}/`, { headers })).text();
+        } catch (error) {
+          if (attempt >= 50) throw error;
+          await Bun.sleep(100);
+        }
+      }
+    });
+  } finally {
+    server.kill();
+    await server.exited;
+    rmSync(projectDir, { recursive: true, force: true });
+  }
+}
+
+describe('Streamed page processing', () => {
+  it('matches tags split across chunks whole', async () => {
+    const encoded = new TextEncoder().encode('<p>café</p>');
+    const chunks = [
+      new TextEncoder().encode('<html><body><im'),
+      new TextEncoder().encode('g src="/p.png" loading="eager"><img src="/q.png">'),
+      encoded.slice(0, 6), // Splits the two bytes of "é"
+      encoded.slice(6),
+      new TextEncoder().encode('</bo'),
+      new TextEncoder().encode('dy></html>'),
+    ];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(chunk);
+        controller.close();
+      }
+    });
+    let completed = '';
+    const route = { path: 'foo', component: 'src/routes/foo/foo.ts', client: '/client/routes/foo/foo.client.js' };
+    const stream = body.pipeThrough(createPageTransform('/foo', route, html => { completed = html; }));
+    const html = await new Response(stream.pipeThrough(new TextEncoderStream())).text();
+    expect(html).toBe('<html><body><img src="/p.png" loading="eager"><img loading="lazy"  src="/q.png">' +
+      '<p>café</p><script src="/client/routes/foo/foo.client.js"></script>\n</body></html>');
+    expect(completed).toBe(html);
+  });
+});
+
+describe('Context headers', () => {
+  it('adds headers and cookies set through the context to the response', async () => {
+    const context = createContext(new Request('http://localhost/login', { method: 'POST' }));
+    const untouched = redirect('/account');
+    expect(withContextHeaders(untouched, context)).toBe(untouched);
+
+    context.setHeader!('X-Frame-Options', 'DENY');
+    context.setCookie!('session', 'abc', { httpOnly: true });
+    context.setCookie!('flash', 'Welcome back', { maxAge: 60 });
+    const response = withContextHeaders(redirect('/account'), context);
+    expect(response.status).toBe(303);
+    expect(response.headers.get('Location')).toBe('/account');
+    expect(response.headers.get('X-Frame-Options')).toBe('DENY');
+    expect(response.headers.getSetCookie()).toEqual(['session=abc; Path=/; HttpOnly', 'flash=Welcome%20back; Max-Age=60; Path=/']);
+  });
+});
@@ -1,8 +1,10 @@
 import { describe, it, expect, afterAll } from 'bun:test';
-import { SSRContext, ZyteSSR, createSSR, render as zyteRender, html, escapeHtml } from '../src/index';
+import { SSRContext, ZyteSSR, createSSR, render as zyteRender, html, raw, escapeHtml, redirect, notFound, HttpError, createContext } from '../src/index';
 import { writeFileSync, unlinkSync, existsSync, mkdirSync, rmSync } from 'fs';
 import { join } from 'path';
 import { setTimeout as delay } from 'timers/promises';
+import { renderMarkdown } from '../src/markdown';
+import { ISLAND_LOADER } from '../src/islands';
 
 const TMP_DIR = join(process.cwd(), 'tests', 'tmp');
 const APP_DIR = join(TMP_DIR, 'src', 'app');
@@ -25,12 +27,12 @@ writeFileSync(join(ROOT_APP_DIR, 'app.html'), '<html><head></head><body>{{ appPa
 function setupAppFiles() {
   if (!existsSync(APP_DIR)) mkdirSync(APP_DIR, { recursive: true });
   writeFileSync(APP_TS, `export function appPage() { return '<h1>Hello SSR</h1>'; }`);
-  writeFileSync(APP_HTML, `<!DOCTYPE html>\n<html><head></head><body>{{ appPage() }}</body></html>`);
+  writeFileSync(APP_HTML, `<!DOCTYPE html>\n<html><head></head><body>{{{ appPage() }}}</body></html>`);
 }
 function setupRouteFiles() {
   if (!existsSync(ROUTE_DIR)) mkdirSync(ROUTE_DIR, { recursive: true });
   writeFileSync(ROUTE_TS, `export function fooPage() { return '<div>Foo Route</div>'; }`);
-  writeFileSync(ROUTE_HTML, `<!DOCTYPE html>\n<html><head><title>Foo</title></head><body>{{ fooPage() }}</body></html>`);
+  writeFileSync(ROUTE_HTML, `<!DOCTYPE html>\n<html><head><title>Foo</title></head><body>{{{ fooPage() }}}</body></html>`);
 }
 function setupRouteFilesWithCSS() {
   setupRouteFiles();
@@ -122,7 +124,7 @@ describe('SSR Framework', () => {
 
   it('processes template expressions', async () => {
     setupAppFiles();
-    writeFileSync(APP_HTML, `<!DOCTYPE html>\n<html><body>{{ appPage() }}</body></html>`);
+    writeFileSync(APP_HTML, `<!DOCTYPE html>\n<html><body>{{{ appPage() }}}</body></html>`);
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
     const html = await ssr.render('/', { params: {}, query: {}, headers: { accept: 'text/html' } });
     expect(html).toContain('<h1>Hello SSR</h1>');
@@ -146,11 +148,948 @@ describe('SSR Framework', () => {
     cleanupAll();
   });
 
+  it('matches dynamic route segments and fills params', async () => {
+    setupAppFiles();
+    const userDir = join(ROUTES_DIR, 'users', '[id]');
+    mkdirSync(userDir, { recursive: true });
+    writeFileSync(join(userDir, '[id].ts'), `export function loadUser(id) { return '<h1>User ' + id + '</h1>'; }`);
+    writeFileSync(join(userDir, '[id].html'), `<html><body>{{{ loadUser(params.id) }}} <p>{{ params.id }}</p></body></html>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const html = await ssr.render('/users/42', { params: {}, query: {}, headers: {} });
+    expect(html).toContain('<h1>User 42</h1>');
+    expect(html).toContain('<p>42</p>');
+    expect(ssr.getRoutesMap().get('users/[id]')?.params).toEqual(['id']);
+    cleanupAll();
+  });
+
+  it('prefers static routes over dynamic segments', async () => {
+    setupAppFiles();
+    const dynamicDir = join(ROUTES_DIR, 'posts', '[slug]');
+    const staticDir = join(ROUTES_DIR, 'posts', 'new');
+    mkdirSync(dynamicDir, { recursive: true });
+    mkdirSync(staticDir, { recursive: true });
+    writeFileSync(join(dynamicDir, '[slug].ts'), `export const x = 1;`);
+    writeFileSync(join(staticDir, 'new.ts'), `export const x = 1;`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    expect(ssr.matchRoute('/posts/new')?.route.path).toBe('posts/new');
+    expect(ssr.matchRoute('/posts/hello%20world')).toEqual({
+      route: ssr.getRoutesMap().get('posts/[slug]')!,
+      params: { slug: 'hello world' }
+    });
+    expect(ssr.matchRoute('/posts/a/b')).toBe(null);
+    cleanupAll();
+  });
+
+  it('matches catch-all and optional catch-all segments', async () => {
+    setupAppFiles();
+    const docsDir = join(ROUTES_DIR, 'docs', '[...slug]');
+    const blogDir = join(ROUTES_DIR, 'blog', '[[...path]]');
+    mkdirSync(docsDir, { recursive: true });
+    mkdirSync(blogDir, { recursive: true });
+    writeFileSync(join(docsDir, '[...slug].ts'), `export function crumbs(slug) { return slug.join(' / '); }`);
+    writeFileSync(join(docsDir, '[...slug].html'), `<html><body>{{ crumbs(params.slug) }}</body></html>`);
+    writeFileSync(join(blogDir, '[[...path]].ts'), `export const x = 1;`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const html = await ssr.render('/docs/guide/routing/dynamic', { params: {}, query: {}, headers: {} });
+    expect(html).toContain('guide / routing / dynamic');
+    expect(ssr.matchRoute('/docs')).toBe(null);
+    expect(ssr.matchRoute('/blog')?.params).toEqual({ path: [] });
+    expect(ssr.matchRoute('/blog/2024/05/hello')?.params).toEqual({ path: ['2024', '05', 'hello'] });
+    cleanupAll();
+  });
+
+  it('wraps routes in nested layouts from the root down', async () => {
+    setupAppFiles();
+    const docsDir = join(ROUTES_DIR, 'docs');
+    const pageDir = join(docsDir, 'intro');
+    mkdirSync(pageDir, { recursive: true });
+    writeFileSync(join(ROUTES_DIR, 'layout.html'), `<html><head><title>{{ siteName }}</title></head><body><nav>Nav</nav>{{ slot }}</body></html>`);
+    writeFileSync(join(ROUTES_DIR, 'layout.ts'), `export const siteName = 'Docs Site';`);
+    writeFileSync(join(ROUTES_DIR, 'layout.css'), 'nav { color: red; }');
+    writeFileSync(join(docsDir, 'layout.html'), `<section class="docs">{{ slot }}</section>`);
+    writeFileSync(join(pageDir, 'intro.ts'), `export function content() { return '<p>Intro</p>'; }`);
+    writeFileSync(join(pageDir, 'intro.html'), `<article>{{{ content() }}}</article>`);
+    writeFileSync(join(pageDir, 'intro.css'), 'article { color: blue; }');
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const route = ssr.getRoutesMap().get('docs/intro');
+    expect(route?.layouts).toEqual([join('src', 'routes', 'layout.html'), join('src', 'routes', 'docs', 'layout.html')]);
+    expect(route?.layout).toBe(join('src', 'routes', 'docs', 'layout.html'));
+    const html = await ssr.render('/docs/intro', { params: {}, query: {}, headers: {} });
+    expect(html).toContain('<title>Docs Site</title>');
+    expect(html).toContain('<nav>Nav</nav><section class="docs"><article><p>Intro</p></article></section>');
+    expect(html).toContain('<link rel="stylesheet" href="/routes/layout.css">\n<link rel="stylesheet" href="/routes/docs/intro/intro.css">');
+    // A directory holding only a layout is not a route itself
+    expect(ssr.getRoutesMap().has('docs')).toBe(false);
+    cleanupAll();
+  });
+
+  it('selects route components by convention and reports conflicts', async () => {
+    setupAppFiles();
+    const shopDir = join(ROUTES_DIR, 'shop');
+    const helpersDir = join(ROUTES_DIR, 'helpers');
+    const postsById = join(ROUTES_DIR, 'posts', '[id]');
+    const postsBySlug = join(ROUTES_DIR, 'posts', '[slug]');
+    const apiDir = join(ROUTES_DIR, 'api', 'health');
+    for (const dir of [shopDir, helpersDir, postsById, postsBySlug, apiDir]) mkdirSync(dir, { recursive: true });
+    writeFileSync(join(shopDir, 'aaa-utils.ts'), `export const helper = 1;`);
+    writeFileSync(join(shopDir, 'page.ts'), `export function title() { return 'Shop'; }`);
+    writeFileSync(join(shopDir, 'page.html'), `<h1>{{ title() }}</h1>`);
+    writeFileSync(join(helpersDir, 'format.ts'), `export const format = 1;`);
+    writeFileSync(join(postsById, '[id].ts'), `export const x = 1;`);
+    writeFileSync(join(postsById, '[id].html'), `<p>{{ params.id }}</p>`);
+    writeFileSync(join(postsBySlug, '[slug].ts'), `export const x = 1;`);
+    writeFileSync(join(postsBySlug, '[slug].html'), `<p>{{ params.slug }}</p>`);
+    writeFileSync(join(apiDir, 'health.ts'), `export async function GET() { return new Response('ok'); }`);
+    setupRouteFiles();
+    writeFileSync(join(ROUTE_DIR, 'page.ts'), `export const x = 1;`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const routes = ssr.getRoutesMap();
+    expect(routes.get('shop')?.component).toBe(join('src', 'routes', 'shop', 'page.ts'));
+    expect(routes.get('foo')?.component).toBe(join('src', 'routes', 'foo', 'foo.ts'));
+    expect(routes.has('helpers')).toBe(false);
+    expect(routes.has('posts/[id]')).toBe(true);
+    expect(routes.has('posts/[slug]')).toBe(false);
+    expect(await ssr.render('/shop', { params: {}, query: {}, headers: {} })).toContain('<h1>Shop</h1>');
+    const diagnostics = ssr.getRouteDiagnostics();
+    expect(diagnostics.map(d => [d.level, d.code, d.path])).toEqual([
+      ['warning', 'ambiguous-component', 'foo'],
+      ['warning', 'missing-component', 'helpers'],
+      ['error', 'duplicate-route', 'posts/[slug]']
+    ]);
+    expect(diagnostics[2].files).toEqual([
+      join('src', 'routes', 'posts', '[id]', '[id].ts'),
+      join('src', 'routes', 'posts', '[slug]', '[slug].ts')
+    ]);
+    cleanupAll();
+  });
+
+  it('warns about template-less routes that are not API routes', () => {
+    setupAppFiles();
+    const pageDir = join(ROUTES_DIR, 'orphan');
+    mkdirSync(pageDir, { recursive: true });
+    writeFileSync(join(pageDir, 'orphan.ts'), `export function content() { return 'x'; }`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    expect(ssr.getRouteDiagnostics()).toEqual([{
+      level: 'warning',
+      code: 'missing-template',
+      path: 'orphan',
+      files: [join('src', 'routes', 'orphan', 'orphan.ts')],
+      message: 'Route "orphan" has no orphan.html template and exports no HTTP method handlers'
+    }]);
+    cleanupAll();
+  });
+
+  it('renders conditional and loop blocks with scoped variables', async () => {
+    setupAppFiles();
+    writeFileSync(APP_TS, `
+      export const user = { name: 'Ada', role: 'admin' };
+      export const groups = [
+        { name: 'Fruit', items: ['apple', 'pear'] },
+        { name: 'Empty', items: [] }
+      ];
+      export function label(item, index) { return index + ':' + item; }
+    `);
+    writeFileSync(APP_HTML, `<html><body>
+      {{#if user.role === 'editor'}}<p>Editor</p>{{else if user.role === 'admin'}}<p>Admin {{ user.name }}</p>{{else}}<p>Guest</p>{{/if}}
+      {{#if query.missing}}<p>Never</p>{{/if}}
+      <ul>{{#each groups as group}}<li>{{ group.name }}:{{#each group.items as item, i}} {{ label(item, i) }}{{else}} none{{/each}}</li>{{/each}}</ul>
+      <p>{{ item ?? 'out of scope' }}</p>
+    </body></html>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const html = await ssr.render('/', { params: {}, query: {}, headers: {} });
+    expect(html).toContain('<p>Admin Ada</p>');
+    expect(html).not.toContain('Never');
+    expect(html).toContain('<ul><li>Fruit: 0:apple 1:pear</li><li>Empty: none</li></ul>');
+    expect(html).toContain('<p>out of scope</p>');
+    cleanupAll();
+  });
+
+  it('rejects unbalanced template blocks', async () => {
+    setupAppFiles();
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const ctx: SSRContext = { params: {}, query: {}, headers: {} };
+    await expect(ssr['processTemplate']('{{#if a}}open', {}, ctx)).rejects.toThrow('Unclosed {{#if}} block');
+    await expect(ssr['processTemplate']('{{#each a as b}}{{/if}}', {}, ctx)).rejects.toThrow('Unexpected {{/if}}');
+    await expect(ssr['processTemplate']('{{else}}', {}, ctx)).rejects.toThrow('outside of a block');
+    await expect(ssr['processTemplate']('{{#each items}}{{/each}}', {}, ctx)).rejects.toThrow('expected {{#each list as item}}');
+  });
+
+  it('escapes {{ }} output unless it is raw or html-tagged', async () => {
+    setupAppFiles();
+    const indexPath = join(process.cwd(), 'src', 'index');
+    writeFileSync(APP_TS, `
+      import { html, raw } from '${indexPath}';
+      export function card(title) { return html\`<h2>\${title}</h2>\`; }
+      export function list(items) { return html\`<ul>\${items.map(item => html\`<li>\${item}</li>\`)}</ul>\`; }
+      export function trusted() { return raw('<em>trusted</em>'); }
+      export function plain() { return '<b>plain</b>'; }
+    `);
+    writeFileSync(APP_HTML, `<html><body>
+      <p>{{ query.name }}</p>
+      {{ card(query.name) }}
+      {{ list(['<a>', 'b']) }}
+      {{ trusted() }}
+      {{ plain() }}
+      {{{ plain() }}}
+    </body></html>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const html = await ssr.render('/', { params: {}, query: { name: '<script>alert(1)</script>' }, headers: {} });
+    expect(html).toContain('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+    expect(html).toContain('<h2>&lt;script&gt;alert(1)&lt;/script&gt;</h2>');
+    expect(html).toContain('<ul><li>&lt;a&gt;</li><li>b</li></ul>');
+    expect(html).toContain('<em>trusted</em>');
+    expect(html).toContain('&lt;b&gt;plain&lt;/b&gt;');
+    expect(html).toContain('<b>plain</b>');
+    expect(html).not.toContain('<script>');
+
+    const unescaped = new ZyteSSR({ baseDir: TMP_DIR, autoEscape: false });
+    expect(await unescaped.render('/', { params: {}, query: { name: '<i>x</i>' }, headers: {} })).toContain('<p><i>x</i></p>');
+    cleanupAll();
+  });
+
+  it('renders partials from src/components with props and injects their CSS once', async () => {
+    setupRouteFiles();
+    const componentsDir = join(TMP_DIR, 'src', 'components');
+    mkdirSync(join(componentsDir, 'ui'), { recursive: true });
+    writeFileSync(join(componentsDir, 'card.html'), `<div class="card"><h2>{{ title }}</h2><p>{{ shout(body) }}</p>{{ secret ?? 'hidden' }} {{ query.ref }}</div>`);
+    writeFileSync(join(componentsDir, 'card.ts'), `export function shout(text) { return text.toUpperCase(); }`);
+    writeFileSync(join(componentsDir, 'card.css'), '.card { border: 1px solid; }');
+    writeFileSync(join(componentsDir, 'ui', 'badge.html'), `<span>{{ label }}</span>`);
+    writeFileSync(ROUTE_TS, `export const secret = 'parent only'; export const items = ['one', 'two'];`);
+    writeFileSync(ROUTE_HTML, `<html><head><title>Foo</title></head><body>
+      {{#each items as item}}{{> card title=item body="hi " + item }}{{/each}}
+      {{> ui/badge label="<new>" }}
+      {{> missing }}
+    </body></html>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    // `+` is not part of the expression language, so that tag fails to parse
+    await expect(ssr.render('/foo', { params: {}, query: {}, headers: {} })).rejects.toThrow('Invalid props for partial "card"');
+
+    writeFileSync(ROUTE_HTML, `<html><head><title>Foo</title></head><body>
+      {{#each items as item}}{{> card title=item body=item }}{{/each}}
+      {{> ui/badge label="<new>" }}
+      {{> missing }}
+    </body></html>`);
+    const html = await ssr.render('/foo', { params: {}, query: { ref: 'nav' }, headers: {} });
+    expect(html).toContain('<div class="card"><h2>one</h2><p>ONE</p>hidden nav</div>');
+    expect(html).toContain('<div class="card"><h2>two</h2><p>TWO</p>hidden nav</div>');
+    expect(html).toContain('<span>&lt;new&gt;</span>');
+    expect(html).not.toContain('{{> missing }}');
+    expect(ssr.getTemplateErrors().map(error => error.reason)).toEqual(['Partial template not found: src/components/missing.html']);
+    expect(html.match(/\/components\/card\.css/g)).toHaveLength(1);
+    expect(html).toContain('<link rel="stylesheet" href="/components/card.css">\n</head>');
+    cleanupAll();
+  });
+
+  it('recompiles templates and reloads modules only when their files change in development', async () => {
+    setupRouteFiles();
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR, production: false });
+    const context = () => ({ params: {}, query: {}, headers: {} });
+    expect(await ssr.render('/foo', context())).toContain('<div>Foo Route</div>');
+    const first = await ssr['loadComponent'](ROUTE_TS);
+    expect(await ssr['loadComponent'](ROUTE_TS)).toBe(first);
+    expect(ssr['loadTemplate'](ROUTE_HTML)).toBe(ssr['loadTemplate'](ROUTE_HTML));
+
+    writeFileSync(ROUTE_TS, `export function fooPage() { return 'Changed component'; }`);
+    writeFileSync(ROUTE_HTML, `<html><head></head><body><main>{{ fooPage() }}</main></body></html>`);
+    expect(await ssr.render('/foo', context())).toContain('<main>Changed component</main>');
+    expect(await ssr['loadComponent'](ROUTE_TS)).not.toBe(first);
+    cleanupAll();
+  });
+
+  it('compiles templates and imports modules once in production', async () => {
+    setupAppFiles();
+    const routeDir = join(ROUTES_DIR, 'cached');
+    mkdirSync(routeDir, { recursive: true });
+    writeFileSync(join(routeDir, 'cached.ts'), `export let calls = 0; export function count() { return ++calls; }`);
+    writeFileSync(join(routeDir, 'cached.html'), `<p>{{ count() }}</p>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR, manifest: false, production: true });
+    const context = () => ({ params: {}, query: {}, headers: {} });
+    expect(await ssr.render('/cached', context())).toBe('<p>1</p>');
+    writeFileSync(join(routeDir, 'cached.html'), `<p>edited</p>`);
+    // Same module instance and compiled template: files are not checked again
+    expect(await ssr.render('/cached', context())).toBe('<p>2</p>');
+    cleanupAll();
+  });
+
+  it('applies built-in, project and option filters with pipe syntax', async () => {
+    setupAppFiles();
+    writeFileSync(join(TMP_DIR, 'src', 'filters.ts'), `
+      export function slugify(value) { return String(value).toLowerCase().replace(/[^a-z0-9]+/g, '-'); }
+      export function upper(value) { return 'project:' + value; }
+    `);
+    writeFileSync(APP_TS, `export const post = { title: 'Hello Filters World', published: '2024-03-05T10:20:30Z', tags: ['a', 'b'] };`);
+    writeFileSync(APP_HTML, `<html><body>
+      <h1>{{ post.title | lower | truncate(11) }}</h1>
+      <p>{{ post.published | date('YYYY-MM-DD HH:mm') }}</p>
+      <p>{{ 1234.5 | currency }} {{ 9 | currency('EUR', 'de-DE') }}</p>
+      <p>{{ post.tags.length | pluralize('tag') }}, {{ 1 | pluralize('entry', 'entries') }}</p>
+      <p>{{ query.missing | default('n/a') }} {{ (query.missing || 'x') | upper }}</p>
+      <p>{{ query.html | escape }}</p>
+      <script>const tags = {{{ post.tags | json }}};</script>
+      <p>{{ post.title | slugify }}</p>
+      <p>{{ post.title | shout }}</p>
+      <p>{{ post.title | nope }}</p>
+    </body></html>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR, filters: { upper: value => 'option:' + value, shout: value => value + '!' } });
+    const html = await ssr.render('/', { params: {}, query: { html: '<b>' }, headers: {} });
+    expect(html).toContain('<h1>hello filte…</h1>');
+    expect(html).toContain('<p>2024-03-05 10:20</p>');
+    expect(html).toContain('<p>$1,234.50 9,00\u00a0€</p>');
+    expect(html).toContain('<p>2 tags, 1 entry</p>');
+    expect(html).toContain('<p>n/a option:x</p>');
+    expect(html).toContain('<p>&lt;b&gt;</p>');
+    expect(html).toContain('const tags = ["a","b"];');
+    expect(html).toContain('<p>hello-filters-world</p>');
+    expect(html).toContain('<p>Hello Filters World!</p>');
+    expect(html).toContain('<p></p>');
+    expect(ssr.getTemplateErrors()[0].reason).toBe('Unknown filter "nope"');
+    cleanupAll();
+  });
+
+  it('reports template errors with their location, failing the render in strict mode', async () => {
+    setupRouteFiles();
+    writeFileSync(ROUTE_TS, `export function broken() { throw new Error('boom'); } export const items = [1];`);
+    writeFileSync(ROUTE_HTML, `<html><head><title>Foo</title></head><body>
+  <p>{{ broken() }}</p>
+  {{#each items as item}}<i>{{ item.missing() }}</i>{{/each}}
+</body></html>`);
+    const lenient = new ZyteSSR({ baseDir: TMP_DIR, errorFallback: '?' });
+    const html = await lenient.render('/foo', { params: {}, query: {}, headers: {} });
+    expect(html).toContain('<p>?</p>');
+    expect(html).toContain('<i>?</i>');
+    const errors = lenient.getTemplateErrors();
+    expect(errors.map(({ file, line, column, expression, reason }) => ({ file, line, column, expression, reason }))).toEqual([
+      { file: join('src', 'routes', 'foo', 'foo.html'), line: 2, column: 6, expression: 'broken()', reason: 'boom' },
+      { file: join('src', 'routes', 'foo', 'foo.html'), line: 3, column: 29, expression: 'item.missing()', reason: 'item.missing is not a function' }
+    ]);
+    expect(errors[0].message).toBe(`${join('src', 'routes', 'foo', 'foo.html')}:2:6: boom in {{ broken() }}`);
+    lenient.clearTemplateErrors();
+    expect(lenient.getTemplateErrors()).toEqual([]);
+
+    const strict = new ZyteSSR({ baseDir: TMP_DIR, strict: true });
+    await expect(strict.render('/foo', { params: {}, query: {}, headers: {} }))
+      .rejects.toThrow(`${join('src', 'routes', 'foo', 'foo.html')}:2:6: boom in {{ broken() }}`);
+
+    // Malformed blocks fail in every mode, located at the offending tag
+    writeFileSync(ROUTE_HTML, `<html>\n{{#if ok}}\n</html>`);
+    await expect(lenient.render('/foo', { params: {}, query: {}, headers: {} }))
+      .rejects.toThrow(`${join('src', 'routes', 'foo', 'foo.html')}:2:1: Unclosed {{#if}} block in {{ #if ok }}`);
+    cleanupAll();
+  });
+
+  it('evaluates independent expressions concurrently and keeps document order', async () => {
+    setupAppFiles();
+    writeFileSync(APP_TS, `
+      import { setTimeout as delay } from 'timers/promises';
+      export const stats = { active: 0, peak: 0 };
+      export async function load(name, ms) {
+        stats.active++;
+        stats.peak = Math.max(stats.peak, stats.active);
+        await delay(ms);
+        stats.active--;
+        return name;
+      }
+    `);
+    writeFileSync(APP_HTML, `<html><body>{{ load('a', 30) }} {{ load('b', 10) }} {{#each ['x', 'y'] as item}}{{ load(item, 20) }}{{/each}} {{ load('c', 1) }}</body></html>`);
+    const context = () => ({ params: {}, query: {}, headers: {} });
+
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    expect(await ssr.render('/', context())).toBe('<html><body>a b xy c</body></html>');
+    const { stats } = await ssr['loadComponent'](APP_TS);
+    expect(stats.peak).toBe(5);
+
+    stats.peak = 0;
+    const limited = new ZyteSSR({ baseDir: TMP_DIR, concurrency: 2 });
+    expect(await limited.render('/', context())).toBe('<html><body>a b xy c</body></html>');
+    expect(stats.peak).toBe(2);
+    cleanupAll();
+  });
+
+  it('does not hold a concurrency slot while a layout expression waits for its slot', async () => {
+    setupRouteFiles();
+    writeFileSync(join(ROUTES_DIR, 'layout.html'), `<body>{{ slot | default('none') }}|{{ slot ?? '' }}</body>`);
+    writeFileSync(ROUTE_TS, `export const items = [1]; export async function slow(n) { await new Promise(resolve => setTimeout(resolve, 5)); return n; }`);
+    writeFileSync(ROUTE_HTML, `{{#if items}}{{ slow(1) }}{{/if}}`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR, concurrency: 1 });
+    expect(await ssr.render('/foo', { params: {}, query: {}, headers: {} })).toBe('<body>1|1</body>');
+    cleanupAll();
+  });
+
+  it('streams the head with its stylesheets before slow expressions resolve', async () => {
+    setupAppFiles();
+    setupRouteFilesWithCSS();
+    writeFileSync(join(ROUTES_DIR, 'layout.html'), `<html><head><title>{{ title }}</title></head><body>{{ slot }}<footer>{{ year }}</footer></body></html>`);
+    writeFileSync(join(ROUTES_DIR, 'layout.ts'), `export const title = 'Site'; export const year = 2024;`);
+    writeFileSync(ROUTE_TS, `
+      let release;
+      export const ready = new Promise(resolve => { release = resolve; });
+      export function open() { release(); }
+      export async function slow() { await ready; return 'done'; }
+    `);
+    writeFileSync(ROUTE_HTML, `<main>{{ slow() }}</main>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR, concurrency: 1 });
+    const stream = await ssr.renderStream('/foo', { params: {}, query: {}, headers: {} });
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+
+    const first = decoder.decode((await reader.read()).value);
+    expect(first).toBe('<html><head><title>Site</title><link rel="stylesheet" href="/routes/foo/foo.css">\n</head><body>');
+    (await ssr['loadComponent'](ROUTE_TS)).open();
+    let rest = '';
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) rest += decoder.decode(chunk.value);
+    expect(rest).toBe('<main>done</main><footer>2024</footer></body></html>');
+    expect(await ssr.render('/foo', { params: {}, query: {}, headers: {} })).toBe(first + rest);
+    cleanupAll();
+  });
+
+  it('merges head entries from component functions into <head>', async () => {
+    setupAppFiles();
+    setupRouteFilesWithCSS();
+    writeFileSync(join(ROUTES_DIR, 'layout.html'), `<html><head><title>Site</title><meta name="description" content="Default"></head><body>{{ slot }}</body></html>`);
+    writeFileSync(ROUTE_TS, `
+      export function article(context) {
+        const { head } = context;
+        head.title('Hello & welcome');
+        head.meta({ name: 'description', content: 'First' });
+        head.meta({ name: 'description', content: 'About "us"' });
+        head.og('image', '/og.png');
+        head.canonical('https://example.com/foo');
+        head.preload('/fonts/inter.woff2', 'font', { type: 'font/woff2', crossorigin: '' });
+        head.stylesheet('/routes/foo/foo.css');
+        head.jsonLd({ '@type': 'Article', headline: '</script>' });
+        return 'Article';
+      }
+    `);
+    writeFileSync(ROUTE_HTML, `<main>{{ article() }}</main>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const html = await ssr.render('/foo', { params: {}, query: {}, headers: {} });
+    expect(html).toBe([
+      '<html><head><title>Hello &amp; welcome</title><link rel="stylesheet" href="/routes/foo/foo.css">',
+      '<meta name="description" content="About &quot;us&quot;">',
+      '<meta property="og:image" content="/og.png">',
+      '<link rel="canonical" href="https://example.com/foo">',
+      '<link rel="preload" href="/fonts/inter.woff2" as="font" type="font/woff2" crossorigin>',
+      '<script type="application/ld+json">{"@type":"Article","headline":"\\u003c/script>"}</script>',
+      '</head><body><main>Article</main></body></html>'
+    ].join('\n'));
+    cleanupAll();
+  });
+
+  it('provides context.head to routes and the app page without stylesheets', async () => {
+    setupAppFiles();
+    setupRouteFiles();
+    writeFileSync(ROUTE_TS, `export function article(context) { context.head.title('Route'); return 'Article'; }`);
+    writeFileSync(ROUTE_HTML, `<html><head></head><body>{{ article() }}</body></html>`);
+    writeFileSync(APP_TS, `export function home(context) { context.head.title('Home'); return 'Welcome'; }`);
+    writeFileSync(APP_HTML, `<html><head><title>Site</title></head><body>{{ home() }}</body></html>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    expect(await ssr.render('/foo', { params: {}, query: {}, headers: {} }))
+      .toBe('<html><head><title>Route</title>\n</head><body>Article</body></html>');
+    expect(await ssr.render('/', { params: {}, query: {}, headers: {} }))
+      .toBe('<html><head><title>Home</title></head><body>Welcome</body></html>');
+    cleanupAll();
+  });
+
+  it('runs the route loader once and exposes its data', async () => {
+    setupAppFiles();
+    setupRouteFiles();
+    writeFileSync(ROUTE_TS, `
+      export let calls = 0;
+      export async function load(context) {
+        calls++;
+        return { title: 'Post ' + context.params.id, tags: ['a', 'b'] };
+      }
+      export function heading(context) { return context.data.title.toUpperCase(); }
+      export function tagCount(context) { return context.data.tags.length; }
+    `);
+    writeFileSync(ROUTE_HTML, `<h1>{{ data.title }}</h1><p>{{ heading() }} ({{ tagCount() }})</p>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const context: SSRContext = { params: { id: '7' }, query: {}, headers: {} };
+    expect(await ssr.render('/foo', context)).toBe('<h1>Post 7</h1><p>POST 7 (2)</p>');
+    expect(context.data).toEqual({ title: 'Post 7', tags: ['a', 'b'] });
+    expect((await ssr['loadComponent'](ROUTE_TS)).calls).toBe(1);
+    cleanupAll();
+  });
+
+  it('turns notFound(), HTTP errors and redirects thrown by a loader into responses', async () => {
+    setupAppFiles();
+    setupRouteFiles();
+    const context = (query: Record<string, string>): SSRContext => ({ params: {}, query, headers: {} });
+    writeFileSync(ROUTE_TS, `
+      import { notFound, redirect, HttpError } from '${join(process.cwd(), 'src', 'index')}';
+      export function load({ query }) {
+        if (query.missing) throw notFound();
+        if (query.login) throw redirect('/login');
+        if (query.forbidden) throw new HttpError(403, 'Members only');
+        return {};
+      }
+    `);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+
+    const missing = context({ missing: '1' });
+    expect(await ssr.render('/foo', missing)).toContain('404 - Page Not Found');
+    expect(missing.status).toBe(404);
+
+    const response = await ssr.render('/foo', context({ login: '1' })).catch(error => error);
+    expect(response).toBeInstanceOf(Response);
+    expect(response.status).toBe(303);
+    expect(response.headers.get('Location')).toBe('/login');
+
+    const forbidden = context({ forbidden: '1' });
+    const error = await ssr.render('/foo', forbidden).catch(error => error);
+    expect(HttpError.isHttpError(error)).toBe(true);
+    expect(await ssr.renderError(error, forbidden)).toContain('403');
+    // Only HTTP errors choose the status; other thrown values are server errors
+    const crashed: SSRContext = { params: {}, query: {}, headers: {} };
+    await ssr.renderError({ status: 200, message: 'Response-like' }, crashed);
+    expect(crashed.status).toBe(500);
+    expect(forbidden.status).toBe(403);
+    expect(notFound().status).toBe(404);
+    cleanupAll();
+  });
+
+  it('renders islands with serialized props and the hydration loader', async () => {
+    setupRouteFiles();
+    const componentsDir = join(TMP_DIR, 'src', 'components');
+    mkdirSync(componentsDir, { recursive: true });
+    writeFileSync(join(componentsDir, 'counter.html'), `<button>{{ start }}</button>`);
+    writeFileSync(join(componentsDir, 'counter.client.ts'), `export default function hydrate(root, props) {}`);
+    writeFileSync(join(componentsDir, 'chart.client.ts'), `export default function hydrate(root, props) {}`);
+    writeFileSync(ROUTE_HTML, `<html><head></head><body>{{> counter start=5 label="<a>" hydrate="eager" }}{{> chart points=[1, 2] hydrate="visible" }}</body></html>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR, strict: true });
+    const html = await ssr.render('/foo', { params: {}, query: {}, headers: {} });
+
+    expect(html).toContain('<zyte-island style="display:contents" data-component="counter" data-hydrate="eager" data-src="/client/components/counter.client.js"' +
+      ' data-props="{&quot;start&quot;:5,&quot;label&quot;:&quot;&lt;a&gt;&quot;}"><button>5</button></zyte-island>');
+    // Islands without a template render an empty root for the client module to fill
+    expect(html).toContain('data-hydrate="visible" data-src="/client/components/chart.client.js" data-props="{&quot;points&quot;:[1,2]}"></zyte-island>');
+    expect(html).toContain('<link rel="modulepreload" href="/client/components/counter.client.js">');
+    expect(html).not.toContain('href="/client/components/chart.client.js"');
+    expect(html.match(/<script type="module">/g)?.length).toBe(1);
+    expect(html.indexOf('zyte-island:not([data-hydrated])')).toBeLessThan(html.indexOf('</head>'));
+
+    writeFileSync(ROUTE_HTML, `<html><head></head><body>{{> counter hydrate="later" }}</body></html>`);
+    await expect(ssr.render('/foo', { params: {}, query: {}, headers: {} }))
+      .rejects.toThrow('Invalid hydrate value "later" for island "counter", expected eager, idle, visible');
+    writeFileSync(ROUTE_HTML, `<html><head></head><body>{{> badge hydrate="idle" }}</body></html>`);
+    await expect(ssr.render('/foo', { params: {}, query: {}, headers: {} }))
+      .rejects.toThrow('Island client module not found: src/components/badge.client.ts');
+    cleanupAll();
+  });
+
+  it('observes the first element of visible islands, since their root has no box', async () => {
+    mkdirSync(TMP_DIR, { recursive: true });
+    const modulePath = join(TMP_DIR, 'chart.client.js');
+    writeFileSync(modulePath, `export default function hydrate(root, props) { root.hydratedWith = props; }`);
+    const observed: any[] = [];
+    let report: (entries: any[]) => void = () => {};
+    class FakeObserver {
+      constructor(callback: (entries: any[]) => void) { report = callback; }
+      observe(target: any) { observed.push(target); }
+      unobserve() {}
+    }
+    const createIsland = (withChild: boolean) => {
+      const island: any = {
+        dataset: { hydrate: 'visible', component: 'chart', src: modulePath, props: '{"points":[1]}' },
+        style: { display: 'contents', removeProperty(name: string) { delete this[name]; } },
+        setAttribute() {},
+        closest: () => island
+      };
+      island.firstElementChild = withChild ? { closest: () => island } : null;
+      return island;
+    };
+    const [withChild, empty] = [createIsland(true), createIsland(false)];
+    const document = { querySelectorAll: () => [withChild, empty] };
+    new Function('window', 'document', 'IntersectionObserver', ISLAND_LOADER)({ IntersectionObserver: FakeObserver }, document, FakeObserver);
+
+    expect(observed).toEqual([withChild.firstElementChild, empty]);
+    expect(withChild.style.display).toBe('contents');
+    expect(empty.style.display).toBeUndefined();
+    report([{ isIntersecting: true, target: withChild.firstElementChild }]);
+    await delay(20);
+    expect(withChild.hydratedWith).toEqual({ points: [1] });
+    cleanupAll();
+  });
+
+  it('creates a request context with cookies, repeated query values and response setters', async () => {
+    setupAppFiles();
+    setupRouteFiles();
+    writeFileSync(ROUTE_TS, `
+      export function track(context) {
+        context.locals.visits = Number(context.cookies.visits ?? 0) + 1;
+        context.setCookie('visits', String(context.locals.visits), { maxAge: 3600, httpOnly: true, sameSite: 'Lax' });
+        context.setHeader('Cache-Control', 'private');
+        if (!context.queryAll.tag.includes('news')) context.setStatus(404);
+        return context.method + ' ' + context.url.pathname;
+      }
+    `);
+    writeFileSync(ROUTE_HTML, `<p>{{ track() }}</p><p>{{ queryAll.tag.join(',') }} {{ query.tag }} {{ cookies.theme }} {{ locals.visits }}</p>`);
+    const request = new Request('http://localhost/foo?tag=news&tag=bun', {
+      method: 'POST',
+      headers: { cookie: 'theme=dark; visits=2; session="a%20b"; theme=light' }
+    });
+    const context = createContext(request);
+    expect(context.query).toEqual({ tag: 'bun' });
+    expect(context.queryAll).toEqual({ tag: ['news', 'bun'] });
+    expect(context.cookies).toEqual({ theme: 'dark', visits: '2', session: 'a b' });
+    expect(context.request).toBe(request);
+
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    expect(await ssr.render('/foo', context)).toBe('<p>POST /foo</p><p>news,bun bun dark 3</p>');
+    expect(context.status).toBeUndefined();
+    expect(context.responseHeaders?.get('Cache-Control')).toBe('private');
+    expect(context.responseHeaders?.getSetCookie()).toEqual(['visits=3; Max-Age=3600; Path=/; HttpOnly; SameSite=Lax']);
+
+    const missing = createContext(new Request('http://localhost/foo?tag=bun'));
+    await ssr.render('/foo', missing);
+    expect(missing.status).toBe(404);
+    expect(() => missing.setCookie!('bad name', 'x')).toThrow('Invalid cookie name "bad name"');
+    cleanupAll();
+  });
+
+  it('renders .tsx route and partial components with the JSX runtime', async () => {
+    mkdirSync(ROUTE_DIR, { recursive: true });
+    const componentsDir = join(TMP_DIR, 'src', 'components');
+    mkdirSync(componentsDir, { recursive: true });
+    writeFileSync(join(ROUTE_DIR, 'foo.tsx'), `/** @jsxImportSource ${join(process.cwd(), 'src')} */
+      import { raw } from '${join(process.cwd(), 'src', 'index')}';
+      async function Name(props: { who: string }) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return <b>{props.who}</b>;
+      }
+      export function greeting(context) {
+        return (
+          <section className="greeting" data-user={context.query.user} hidden={false} style={{ fontSize: '2em' }}>
+            <Name who={context.query.user} />
+            <>{['a', 'b'].map(item => <i>{item}</i>)}</>
+            <input type="checkbox" checked onClick={() => {}} />
+            {raw('<hr>')}{null}{false}
+          </section>
+        );
+      }
+    `);
+    writeFileSync(ROUTE_HTML, `<main>{{ greeting() }}</main>{{> badge }}`);
+    writeFileSync(join(componentsDir, 'badge.tsx'), `/** @jsxImportSource ${join(process.cwd(), 'src')} */
+      export const label = () => <span title={'"quoted"'}>{'<new>'}</span>;
+    `);
+    writeFileSync(join(componentsDir, 'badge.html'), `{{ label() }}`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR, strict: true });
+    expect(ssr.getRoutesMap().get('foo')?.component).toBe(join('src', 'routes', 'foo', 'foo.tsx'));
+
+    const html = await ssr.render('/foo', { params: {}, query: { user: '<Ann & "Bo">' }, headers: {} });
+    expect(html).toBe('<main><section class="greeting" data-user="&lt;Ann &amp; &quot;Bo&quot;&gt;" style="font-size:2em">' +
+      '<b>&lt;Ann &amp; &quot;Bo&quot;&gt;</b><i>a</i><i>b</i><input type="checkbox" checked><hr></section></main>' +
+      '<span title="&quot;quoted&quot;">&lt;new&gt;</span>');
+
+    const component = await ssr['loadComponent'](join(ROUTE_DIR, 'foo.tsx'));
+    expect(String(await component.greeting({ query: { user: 'Cy' } }))).toContain('<b>Cy</b>');
+    cleanupAll();
+  });
+
+  it('renders Markdown routes in the layout chosen by their frontmatter', async () => {
+    const docsDir = join(ROUTES_DIR, 'docs');
+    const layoutsDir = join(TMP_DIR, 'src', 'layouts');
+    mkdirSync(docsDir, { recursive: true });
+    mkdirSync(layoutsDir, { recursive: true });
+    writeFileSync(join(docsDir, 'docs.md'), [
+      '---',
+      'title: "Guide & Tips"',
+      'description: Everything <new>',
+      'layout: docs',
+      'tags: [intro, "set, up"]',
+      '---',
+      '# Getting Started',
+      'Run `zyte new` and read the [API](/docs/api).',
+      '',
+      '```ts',
+      'const ok = 1 < 2;',
+      '```',
+    ].join('\n'));
+    writeFileSync(join(docsDir, 'intro.md'), '## Intro\n\n- one\n- two <b>\n');
+    writeFileSync(join(layoutsDir, 'docs.html'), `<html><head><title>Site</title></head><body><h1>{{ page.title }}</h1>` +
+      `<p>{{#each page.tags as tag}}[{{ tag }}]{{/each}}</p>{{ slot }}</body></html>`);
+    writeFileSync(join(layoutsDir, 'docs.css'), `h1 { color: red; }`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR, strict: true });
+    expect(ssr.getRoutesMap().get('docs')?.template).toBe(join('src', 'routes', 'docs', 'docs.md'));
+    expect(ssr.getRoutesMap().has('docs/intro')).toBe(true);
+
+    const html = await ssr.render('/docs', { params: {}, query: {}, headers: {} });
+    expect(html).toContain('<title>Guide &amp; Tips</title>');
+    expect(html).toContain('<meta name="description" content="Everything &lt;new&gt;">');
+    expect(html).toContain('<link rel="stylesheet" href="/layouts/docs.css">');
+    expect(html).toContain('<body><h1>Guide &amp; Tips</h1><p>[intro][set, up]</p>' +
+      '<h1 id="getting-started"><a href="#getting-started">Getting Started</a></h1>\n' +
+      '<p>Run <code>zyte new</code> and read the <a href="/docs/api">API</a>.</p>\n' +
+      '<pre><code class="language-ts">const ok = 1 &lt; 2;\n</code></pre></body>');
+    expect(await ssr.render('/docs/intro', { params: {}, query: {}, headers: {} }))
+      .toBe('<h2 id="intro"><a href="#intro">Intro</a></h2>\n<ul>\n<li>one</li>\n<li>two &lt;b&gt;</li>\n</ul>');
+    expect(await ssr.handleApiRoute(new Request('http://localhost/docs'), { params: {}, query: {}, headers: {} })).toBeNull();
+
+    writeFileSync(join(docsDir, 'docs.md'), '---\nlayout: missing\n---\n# Docs');
+    await expect(ssr.render('/docs', { params: {}, query: {}, headers: {} }))
+      .rejects.toThrow('Layout not found for src/routes/docs/docs.md: src/layouts/missing.html');
+    writeFileSync(join(docsDir, 'docs.md'), '---\ntitle Docs\n---\n# Docs');
+    await expect(ssr.render('/docs', { params: {}, query: {}, headers: {} }))
+      .rejects.toThrow('src/routes/docs/docs.md:2: Invalid frontmatter line "title Docs", expected key: value');
+    cleanupAll();
+  });
+
+  it('prefers a route component over a Markdown page in the same directory', async () => {
+    const docsDir = join(ROUTES_DIR, 'docs');
+    mkdirSync(docsDir, { recursive: true });
+    writeFileSync(join(docsDir, 'docs.ts'), `export const title = 'Component';`);
+    writeFileSync(join(docsDir, 'docs.html'), `<h1>{{ title }}</h1>`);
+    writeFileSync(join(docsDir, 'docs.md'), '# Markdown');
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    expect(ssr.getRoutesMap().get('docs')?.component).toBe(join('src', 'routes', 'docs', 'docs.ts'));
+    expect(ssr.getRouteDiagnostics()).toEqual([{
+      level: 'warning',
+      code: 'duplicate-route',
+      path: 'docs',
+      files: [join('src', 'routes', 'docs', 'docs.ts'), join('src', 'routes', 'docs', 'docs.md')],
+      message: `Markdown page ${join('src', 'routes', 'docs', 'docs.md')} was ignored because route "docs" has a route component`
+    }]);
+    expect(await ssr.render('/docs', { params: {}, query: {}, headers: {} })).toBe('<h1>Component</h1>');
+    cleanupAll();
+  });
+
+  it('renders Markdown lists, quotes, emphasis and unique heading anchors', () => {
+    const html = renderMarkdown([
+      '## Setup', '## Setup', '',
+      '1. *first* **step** ~~old~~', '2. second', '   - nested', '',
+      '> quoted', '', '---', '',
+      '[click](javascript:alert) ![logo](/logo.png "Logo") \\*literal\\* <i>x</i>',
+      '',
+      '[Foo](https://en.wikipedia.org/wiki/Foo_(bar)) [a](javascript:alert(1)) [b](<a b.html>) (see [c](/c))',
+    ].join('\n'));
+    expect(html).toBe([
+      '<h2 id="setup"><a href="#setup">Setup</a></h2>',
+      '<h2 id="setup-1"><a href="#setup-1">Setup</a></h2>',
+      '<ol>', '<li><em>first</em> <strong>step</strong> <del>old</del></li>', '<li>second', '<ul>', '<li>nested</li>', '</ul></li>', '</ol>',
+      '<blockquote>', '<p>quoted</p>', '</blockquote>',
+      '<hr>',
+      '<p><a href="#">click</a> <img src="/logo.png" alt="logo" title="Logo"> *literal* &lt;i&gt;x&lt;/i&gt;</p>',
+      '<p><a href="https://en.wikipedia.org/wiki/Foo_(bar)">Foo</a> <a href="#">a</a> <a href="a b.html">b</a> (see <a href="/c">c</a>)</p>',
+    ].join('\n'));
+  });
+
   it('returns 404 for missing route', async () => {
     setupAppFiles();
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
-    const html = await ssr.render('/notfound', { params: {}, query: {}, headers: { accept: 'text/html' } });
+    const context: SSRContext = { params: {}, query: {}, headers: { accept: 'text/html' } };
+    const html = await ssr.render('/notfound', context);
     expect(html).toContain('404 - Page Not Found');
+    expect(context.status).toBe(404);
+    cleanupAll();
+  });
+
+  it('renders a custom 404 page with a 404 status', async () => {
+    setupAppFiles();
+    writeFileSync(join(APP_DIR, '404.html'), `<html><head></head><body><h1>Lost?</h1><p>{{ suggestion() }}</p></body></html>`);
+    writeFileSync(join(APP_DIR, '404.ts'), `export function suggestion() { return 'Try the home page'; }`);
+    writeFileSync(join(APP_DIR, '404.css'), 'h1 { color: gray; }');
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const context: SSRContext = { params: {}, query: {}, headers: {} };
+    const html = await ssr.render('/notfound', context);
+    expect(html).toContain('<h1>Lost?</h1>');
+    expect(html).toContain('<p>Try the home page</p>');
+    expect(html).toContain('<link rel="stylesheet" href="/app/404.css">');
+    expect(context.status).toBe(404);
+    cleanupAll();
+  });
+
+  it('renders a custom error page with the error in context', async () => {
+    setupAppFiles();
+    writeFileSync(join(APP_DIR, 'error.html'), `<html><body><h1>Oops ({{ error.status }})</h1><p>{{ error.message }}</p></body></html>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const context: SSRContext = { params: {}, query: {}, headers: {} };
+    const html = await ssr.renderError(new Error('Database offline'), context);
+    expect(html).toContain('<h1>Oops (500)</h1>');
+    expect(html).toContain('<p>Database offline</p>');
+    expect(context.status).toBe(500);
+    expect(context.error?.message).toBe('Database offline');
+    expect(context.error?.stack).toContain('Database offline');
+
+    const production = new ZyteSSR({ baseDir: TMP_DIR, production: true });
+    const productionContext: SSRContext = { params: {}, query: {}, headers: {} };
+    await production.renderError(new Error('Database offline'), productionContext);
+    expect(productionContext.error?.stack).toBeUndefined();
+    cleanupAll();
+  });
+
+  it('falls back to a generic error page without leaking the message', async () => {
+    setupAppFiles();
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const html = await ssr.renderError(new Error('secret connection string'), { params: {}, query: {}, headers: {} });
+    expect(html).toContain('500 - Internal Server Error');
+    expect(html).not.toContain('secret connection string');
+    cleanupAll();
+  });
+
+  it('dispatches API routes to exported method handlers', async () => {
+    setupAppFiles();
+    const apiDir = join(ROUTES_DIR, 'api', 'users', '[id]');
+    mkdirSync(apiDir, { recursive: true });
+    writeFileSync(join(apiDir, '[id].ts'), `
+      export function GET(request, context) {
+        return Response.json({ id: context.params.id, method: request.method });
+      }
+      export async function DELETE() {
+        return new Response(null, { status: 204 });
+      }
+    `);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const context = (): SSRContext => ({ params: {}, query: {}, headers: {} });
+
+    const getResponse = await ssr.handleApiRoute(new Request('http://localhost/api/users/7'), context());
+    expect(getResponse?.status).toBe(200);
+    expect(await getResponse?.json()).toEqual({ id: '7', method: 'GET' });
+
+    const deleteResponse = await ssr.handleApiRoute(new Request('http://localhost/api/users/7', { method: 'DELETE' }), context());
+    expect(deleteResponse?.status).toBe(204);
+
+    const postResponse = await ssr.handleApiRoute(new Request('http://localhost/api/users/7', { method: 'POST' }), context());
+    expect(postResponse?.status).toBe(405);
+    expect(postResponse?.headers.get('Allow')).toBe('GET, DELETE, HEAD');
+    expect(postResponse?.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+    expect(await postResponse?.text()).toBe('Method Not Allowed');
+
+    expect(ssr.getRoutesMap().get('api/users/[id]')?.template).toBeUndefined();
+    cleanupAll();
+  });
+
+  it('leaves page routes to the renderer', async () => {
+    setupAppFiles();
+    setupRouteFiles();
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const response = await ssr.handleApiRoute(new Request('http://localhost/foo', { method: 'POST' }), { params: {}, query: {}, headers: {} });
+    expect(response).toBe(null);
+    expect(await ssr.handleApiRoute(new Request('http://localhost/missing'), { params: {}, query: {}, headers: {} })).toBe(null);
+    cleanupAll();
+  });
+
+  it('runs page actions and exposes the result to the re-rendered template', async () => {
+    setupAppFiles();
+    const contactDir = join(ROUTES_DIR, 'contact');
+    mkdirSync(contactDir, { recursive: true });
+    writeFileSync(join(contactDir, 'contact.ts'), `
+      export async function action(context) {
+        const form = await context.request.formData();
+        const email = form.get('email');
+        if (!email) {
+          context.status = 400;
+          return { message: 'Email is required' };
+        }
+        return { message: 'Thanks, ' + email };
+      }
+    `);
+    writeFileSync(join(contactDir, 'contact.html'), `<form method="post"><p>{{ actionResult.message || '' }}</p></form>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const submit = async (email: string) => {
+      const body = new FormData();
+      body.set('email', email);
+      const request = new Request('http://localhost/contact', { method: 'POST', body });
+      const context: SSRContext = { params: {}, query: {}, headers: {}, request };
+      const response = await ssr.runAction('/contact', context);
+      return { response, context, html: await ssr.render('/contact', context) };
+    };
+
+    const ok = await submit('a@b.c');
+    expect(ok.response).toBeUndefined();
+    expect(ok.html).toContain('<p>Thanks, a@b.c</p>');
+
+    const invalid = await submit('');
+    expect(invalid.context.status).toBe(400);
+    expect(invalid.html).toContain('<p>Email is required</p>');
+    cleanupAll();
+  });
+
+  it('returns redirects from page actions', async () => {
+    setupAppFiles();
+    writeFileSync(APP_TS, `
+      import { redirect } from '${join(process.cwd(), 'src', 'index')}';
+      export function action() { return redirect('/thanks'); }
+    `);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const response = await ssr.runAction('/', { params: {}, query: {}, headers: {} });
+    expect(response?.status).toBe(303);
+    expect(response?.headers.get('Location')).toBe('/thanks');
+    expect(redirect('/moved', 301).status).toBe(301);
+    // Pages without an action are simply rendered
+    setupRouteFiles();
+    expect(await new ZyteSSR({ baseDir: TMP_DIR }).runAction('/foo', { params: {}, query: {}, headers: {} })).toBeUndefined();
+    cleanupAll();
+  });
+
+  it('runs global and directory middleware before rendering', async () => {
+    setupAppFiles();
+    const adminDir = join(ROUTES_DIR, 'admin');
+    const reportsDir = join(adminDir, 'reports');
+    mkdirSync(reportsDir, { recursive: true });
+    writeFileSync(join(TMP_DIR, 'src', 'middleware.ts'), `
+      export default function (request, context) {
+        context.locals.locale = context.headers['accept-language'] || 'en';
+      }
+    `);
+    writeFileSync(join(adminDir, 'middleware.ts'), `
+      export const middleware = [
+        (request, context) => {
+          if (!context.headers.authorization) return new Response('Unauthorized', { status: 401 });
+        },
+        (request, context) => { context.locals.user = { name: 'Ada' }; }
+      ];
+    `);
+    writeFileSync(join(reportsDir, 'reports.ts'), `export const title = 'Reports';`);
+    writeFileSync(join(reportsDir, 'reports.html'), `<p>{{ locals.user.name }} ({{ locals.locale }})</p>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    expect(ssr.getRoutesMap().get('admin/reports')?.middleware).toEqual([join('src', 'routes', 'admin', 'middleware.ts')]);
+    expect(ssr.getRoutesMap().has('admin')).toBe(false);
+
+    const denied = await ssr.runMiddleware(new Request('http://localhost/admin/reports'), { params: {}, query: {}, headers: {} });
+    expect(denied?.status).toBe(401);
+
+    const context: SSRContext = { params: {}, query: {}, headers: { authorization: 'Bearer x', 'accept-language': 'fr' } };
+    expect(await ssr.runMiddleware(new Request('http://localhost/admin/reports'), context)).toBeUndefined();
+    expect(await ssr.render('/admin/reports', context)).toContain('<p>Ada (fr)</p>');
+
+    // Only the global middleware runs outside the admin tree
+    const publicContext: SSRContext = { params: {}, query: {}, headers: {} };
+    expect(await ssr.runMiddleware(new Request('http://localhost/'), publicContext)).toBeUndefined();
+    expect(publicContext.locals).toEqual({ locale: 'en' });
+    cleanupAll();
+  });
+
+  it('records styles and client bundles during discovery', () => {
+    setupAppFiles();
+    setupRouteFilesWithCSS();
+    writeFileSync(join(ROUTE_DIR, 'foo.client.ts'), 'console.log("foo");');
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const route = ssr.getRoutesMap().get('foo');
+    expect(route?.template).toBe(join('src', 'routes', 'foo', 'foo.html'));
+    expect(route?.styles).toEqual(['/routes/foo/foo.css']);
+    expect(route?.client).toBe('/client/routes/foo/foo.client.js');
+    cleanupAll();
+  });
+
+  it('loads routes from a manifest instead of scanning', async () => {
+    setupAppFiles();
+    setupRouteFiles();
+    const manifest = new ZyteSSR({ baseDir: TMP_DIR }).toManifest();
+    expect(manifest.routes.map(route => route.path)).toEqual(['foo']);
+
+    // Routes come from the manifest even after the directory changes
+    mkdirSync(join(ROUTES_DIR, 'bar'), { recursive: true });
+    writeFileSync(join(ROUTES_DIR, 'bar', 'bar.ts'), `export const x = 1;`);
+    const fromObject = new ZyteSSR({ baseDir: TMP_DIR, manifest });
+    expect(fromObject.getRoutes().map(route => route.path)).toEqual(['foo']);
+    expect(await fromObject.render('/foo', { params: {}, query: {}, headers: {} })).toContain('<div>Foo Route</div>');
+
+    mkdirSync(join(TMP_DIR, 'dist'), { recursive: true });
+    writeFileSync(join(TMP_DIR, 'dist', 'routes-manifest.json'), JSON.stringify(manifest));
+    const fromFile = new ZyteSSR({ baseDir: TMP_DIR, manifest: 'dist/routes-manifest.json' });
+    expect(fromFile.getRoutesMap().has('bar')).toBe(false);
+    expect(new ZyteSSR({ baseDir: TMP_DIR, manifest: false }).getRoutesMap().has('bar')).toBe(true);
     cleanupAll();
   });
 
@@ -167,7 +1106,7 @@ describe('SSR Framework', () => {
     // Setup async SSR component in app
     if (!existsSync(APP_DIR)) mkdirSync(APP_DIR, { recursive: true });
     writeFileSync(APP_TS, `export async function appPage() { await (new Promise(r => setTimeout(r, 10))); return '<h1>Async SSR</h1>'; }`);
-    writeFileSync(APP_HTML, `<!DOCTYPE html>\n<html><head></head><body>{{ appPage() }}</body></html>`);
+    writeFileSync(APP_HTML, `<!DOCTYPE html>\n<html><head></head><body>{{{ appPage() }}}</body></html>`);
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
     const html = await ssr.render('/', { params: {}, query: {}, headers: { accept: 'text/html' } });
     expect(html).toContain('<h1>Async SSR</h1>');
@@ -205,10 +1144,10 @@ export const pageData = {
   <title>{{ getTitle() }}</title>
 </head>
 <body>
-  {{ header() }}
-  {{ mainContent() }}
+  {{{ header() }}}
+  {{{ mainContent() }}}
   <p>By {{ pageData.author }} on {{ pageData.date }}</p>
-  {{ footer() }}
+  {{{ footer() }}}
 </body>
 </html>`);
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
@@ -240,9 +1179,9 @@ export function getCount(count: number) {
     writeFileSync(APP_HTML, `<!DOCTYPE html>
 <html>
 <body>
-  {{ greet('World') }}
-  {{ formatDate('2024-01-01') }}
-  {{ getCount(42) }}
+  {{{ greet('World') }}}
+  {{{ formatDate('2024-01-01') }}}
+  {{{ getCount(42) }}}
 </body>
 </html>`);
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
@@ -275,7 +1214,7 @@ export function getTitle(context?: any) {
   <title>{{ getTitle() }}</title>
 </head>
 <body>
-  {{ searchPage() }}
+  {{{ searchPage() }}}
   <p>Query: {{ query.q || 'None' }}</p>
   <p>Page: {{ query.page || '1' }}</p>
 </body>
@@ -309,8 +1248,8 @@ export function showPage(page: string) {
     writeFileSync(APP_HTML, `<!DOCTYPE html>
 <html>
 <body>
-  {{ displayUser(query.userId) }}
-  {{ showPage(query.page) }}
+  {{{ displayUser(query.userId) }}}
+  {{{ showPage(query.page) }}}
 </body>
 </html>`);
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
@@ -329,7 +1268,7 @@ export function showPage(page: string) {
     // Setup app files
     if (!existsSync(APP_DIR)) mkdirSync(APP_DIR, { recursive: true });
     writeFileSync(APP_TS, `export function appPage() { return '<h1>Home</h1>'; }`);
-    writeFileSync(APP_HTML, `<!DOCTYPE html>\n<html><head></head><body>{{ appPage() }}</body></html>`);
+    writeFileSync(APP_HTML, `<!DOCTYPE html>\n<html><head></head><body>{{{ appPage() }}}</body></html>`);
     
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
     const context = {
@@ -357,7 +1296,7 @@ export function showPage(page: string) {
     writeFileSync(APP_TS, `export function throwsError() { throw new Error('fail!'); }`);
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
     const html = await ssr.render('/', { params: {}, query: {}, headers: {} });
-    expect(html).toContain('{{ throwsError() }}'); // Should not crash, just output the tag
+    expect(html).toBe('<!DOCTYPE html><html><body></body></html>'); // Should not crash or leak the tag
     cleanupAll();
   });
 
@@ -405,9 +1344,14 @@ export function showPage(page: string) {
   it('html tagged template escapes interpolated values', () => {
     const user = '<script>alert(1)</script>';
     const safe = html`<div>User: ${user}</div>`;
-    expect(safe).toBe('<div>User: &lt;script&gt;alert(1)&lt;/script&gt;</div>');
+    expect(String(safe)).toBe('<div>User: &lt;script&gt;alert(1)&lt;/script&gt;</div>');
     const normal = html`<div>User: JohnDoe</div>`;
-    expect(normal).toBe('<div>User: JohnDoe</div>');
+    expect(String(normal)).toBe('<div>User: JohnDoe</div>');
+    // Values from another copy of the package (e.g. the server bundle) are recognized too
+    const foreign = { [Symbol.for('zyte.SafeHtml')]: true, toString: () => '<i>copy</i>' };
+    expect(String(html`<p>${foreign}</p>`)).toBe('<p><i>copy</i></p>');
+    // Nested html results and raw() values are not escaped again
+    expect(String(html`<p>${normal} ${raw('<br>')}</p>`)).toBe('<p><div>User: JohnDoe</div> <br></p>');
     // Also test escapeHtml utility
     expect(escapeHtml('<b>bold</b>')).toBe('&lt;b&gt;bold&lt;/b&gt;');
   });
@@ -447,33 +1391,95 @@ describe('ZyteSSR function coverage', () => {
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
     const context: SSRContext = { params: {}, query: {}, headers: {} };
     const html = await ssr['processTemplate']('<div>{{ notAFunction() }}</div>', {}, context);
-    expect(html).toContain('{{ notAFunction() }}');
+    expect(html).toBe('<div></div>');
   });
 
-  it('parseTemplateArgs and evaluateSingleExpression all types', () => {
+  it('evaluateExpression handles arguments and literals of all types', async () => {
     setupAppFiles();
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
     const ctx = { query: { q: 'Q' }, params: { p: 'P' }, headers: { h: 'H' } };
-    // string, number, boolean, null, undefined, context, property, nested, not found
-    expect(ssr['parseTemplateArgs'](`"str", 42, true, false, null, undefined, query.q, params.p, headers.h`, ctx)).toEqual([
+    const component = { collect: (...args: any[]) => args.slice(0, -1) };
+    // string, number, boolean, null, undefined, context
+    expect(await ssr['evaluateExpression'](`collect("str", 42, true, false, null, undefined, query.q, params.p, headers.h)`, component, ctx)).toEqual([
       'str', 42, true, false, null, undefined, 'Q', 'P', 'H'
     ]);
-    // evaluateSingleExpression: string, number, boolean, null, undefined, property, nested, not found
-    expect(ssr['evaluateSingleExpression']('"str"', {}, ctx)).toBe('str');
-    expect(ssr['evaluateSingleExpression']('42', {}, ctx)).toBe(42);
-    expect(ssr['evaluateSingleExpression']('true', {}, ctx)).toBe(true);
-    expect(ssr['evaluateSingleExpression']('null', {}, ctx)).toBe(null);
-    expect(ssr['evaluateSingleExpression']('undefined', {}, ctx)).toBe(undefined);
-    expect(ssr['evaluateSingleExpression']('query.q', {}, ctx)).toBe('Q');
-    expect(ssr['evaluateSingleExpression']('notfound', {}, ctx)).toBe(undefined);
-    expect(ssr['evaluateSingleExpression']('foo.bar', { foo: { bar: 123 } }, ctx)).toBe(123);
+    // string, number, boolean, null, undefined, property, nested, not found
+    expect(await ssr['evaluateExpression']('"str"', {}, ctx)).toBe('str');
+    expect(await ssr['evaluateExpression']('42', {}, ctx)).toBe(42);
+    expect(await ssr['evaluateExpression']('true', {}, ctx)).toBe(true);
+    expect(await ssr['evaluateExpression']('null', {}, ctx)).toBe(null);
+    expect(await ssr['evaluateExpression']('undefined', {}, ctx)).toBe(undefined);
+    expect(await ssr['evaluateExpression']('query.q', {}, ctx)).toBe('Q');
+    expect(await ssr['evaluateExpression']('notfound', {}, ctx)).toBe(undefined);
+    expect(await ssr['evaluateExpression']('foo.bar', { foo: { bar: 123 } }, ctx)).toBe(123);
   });
 
-  it('evaluateExpression handles logical OR', () => {
+  it('evaluateExpression handles logical operators', async () => {
     setupAppFiles();
     const ssr = new ZyteSSR({ baseDir: TMP_DIR });
     const ctx = { query: { q: '' }, params: {}, headers: {} };
-    expect(ssr['evaluateExpression']('query.q || "fallback"', {}, ctx)).toBe('fallback');
+    expect(await ssr['evaluateExpression']('query.q || "fallback"', {}, ctx)).toBe('fallback');
+    expect(await ssr['evaluateExpression']('query.q ?? "fallback"', {}, ctx)).toBe('');
+    expect(await ssr['evaluateExpression']('query.missing ?? "fallback"', {}, ctx)).toBe('fallback');
+    expect(await ssr['evaluateExpression']('query.q && "set"', {}, ctx)).toBe('');
+  });
+
+  it('evaluates nested calls, method calls, literals and ternaries in templates', async () => {
+    setupAppFiles();
+    writeFileSync(APP_TS, `
+      export const user = { first: 'Ada', last: 'Lovelace', getName() { return this.first + ' ' + this.last; } };
+      export const items = ['a', 'b', 'c'];
+      export function upper(value) { return String(value).toUpperCase(); }
+      export async function wrap(value, tag) { return '<' + tag + '>' + value + '</' + tag + '>'; }
+      export function describe(options) { return options.label + ':' + options.count; }
+      export function join(a, b) { return a + b; }
+    `);
+    writeFileSync(APP_HTML, `<html><body>
+      <p>{{{ wrap(upper(user.getName()), "b") }}}</p>
+      <p>{{ describe({ label: "items}", count: items.length }) }}</p>
+      <p>{{ join("a, b", ', c') }}</p>
+      <p>{{ items.length > 2 ? "many" : "few" }}</p>
+      <p>{{ query.tab === 'posts' && !query.hidden ? 'Posts' : 'Other' }}</p>
+      <p>{{ items[1] }}</p>
+    </body></html>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const html = await ssr.render('/', { params: {}, query: { tab: 'posts' }, headers: {} });
+    expect(html).toContain('<p><b>ADA LOVELACE</b></p>');
+    expect(html).toContain('<p>items}:3</p>');
+    expect(html).toContain('<p>a, b, c</p>');
+    expect(html).toContain('<p>many</p>');
+    expect(html).toContain('<p>Posts</p>');
+    expect(html).toContain('<p>b</p>');
+    cleanupAll();
+  });
+
+  it('rejects unsafe or malformed template expressions', async () => {
+    setupAppFiles();
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const ctx: SSRContext = { params: {}, query: {}, headers: {} };
+    const component = { fn: () => 'x' };
+    await expect(ssr['evaluateExpression']('fn.constructor("return process")()', component, ctx)).rejects.toThrow('not allowed');
+    await expect(ssr['evaluateExpression']('query["__proto__"]', component, ctx)).rejects.toThrow('not allowed');
+    await expect(ssr['evaluateExpression']('fn(', component, ctx)).rejects.toThrow('Unexpected end of expression');
+    await expect(ssr['evaluateExpression']('a = 1', component, ctx)).rejects.toThrow('Unexpected "="');
+    const html = await ssr['processTemplate']('<p>{{ fn() ; }}</p>', component, ctx);
+    expect(html).toBe('<p></p>');
+  });
+
+  it('does not expose Object.prototype through layouts and partials without a module', async () => {
+    setupRouteFiles();
+    writeFileSync(ROUTE_HTML, `<main>{{> card }}</main>`);
+    writeFileSync(join(ROUTES_DIR, 'layout.html'), `<body>{{ constructor.getOwnPropertyDescriptor(constructor.getPrototypeOf(constructor), 'constructor').value('return process.version')() }}{{ slot }}</body>`);
+    mkdirSync(join(TMP_DIR, 'src', 'components'), { recursive: true });
+    writeFileSync(join(TMP_DIR, 'src', 'components', 'card.html'), `<p>{{ toString }}|{{ hasOwnProperty }}|{{ constructor }}</p>`);
+    const ssr = new ZyteSSR({ baseDir: TMP_DIR });
+    const html = await ssr.render('/foo', { params: {}, query: {}, headers: {} });
+    expect(html).toBe('<body><main><p>||</p></main></body>');
+    expect(ssr.getTemplateErrors().map(error => error.reason)).toEqual([
+      'Access to "constructor" is not allowed in templates',
+      'Access to "constructor" is not allowed in templates'
+    ]);
+    cleanupAll();
   });
 
   it('createSSR and render exports', async () => {